@@ -1,28 +1,278 @@
-import { analyze } from './src/ZplAnalyzer.ts';
-import { drawElements } from './src/ZplElementDrawer.ts';
+import {
+  drawElements,
+  drawElementsToBitmap,
+  drawElementsToPdf,
+  drawElementsToSvg,
+} from './src/ZplElementDrawer.js';
+import type {
+  Bitmap,
+  Diagnostic,
+  DrawOptions,
+  ImageToZplOptions,
+  Label,
+  RenderAllOptions,
+  RenderOptions,
+  TemplateOptions,
+} from './src/types.js';
+import { bitmapToGrf, encodeGrfData } from './src/grf.js';
+import { decodeImage, encodePng, stackBitmaps } from './src/utils.js';
+
+import { ZplDiagnosticError } from './src/diagnostics.js';
+import { analyze } from './src/ZplAnalyzer.js';
+import { encodeTiff } from './src/tiff.js';
+import { registerFont } from './src/font.js';
 
 /**
- * Renders one or more labels from a ZPL document into PNG buffers.  The
- * analyser splits the input into individual labels and returns an
- * array of label objects.  Each label object contains the raw
- * element definitions as parsed as well as a convenience method to
- * render itself to a PNG.  The top‑level render function will
- * return the buffer for the first label in the document.  For
- * documents containing multiple ^XA/^XZ sections you should call
- * analyse() directly and render each label separately.
+ * Resolves the drawing options for a label: its own ^PW/^LL values
+ * win over the caller's default stock size, and the printer resolution
+ * is the one the label was analysed for.  The label's ^PO, ^PM, ^LS
+ * and ^LT settings are applied to the finished output.  Diagnostics go
+ * to the caller's array.
+ */
+function labelOptions(label: Label, options: RenderOptions): DrawOptions {
+  return {
+    width: label.printWidth || options.width,
+    height: label.labelLength || options.height,
+    dpi: label.dpi,
+    scale: options.scale,
+    printOrientation: label.printOrientation,
+    mirror: label.mirror,
+    labelShift: label.labelShift,
+    labelTop: label.labelTop,
+    diagnostics: options.diagnostics,
+    strict: options.strict,
+  };
+}
+
+/**
+ * Renders a single label in the requested output format.  SVG markup
+ * is returned as a UTF‑8 buffer so that every format has the same
+ * return type.
+ */
+async function renderLabel(
+  label: Label,
+  options: RenderOptions
+): Promise<Buffer> {
+  const format = options.format || 'png';
+  const opts = labelOptions(label, options);
+  if (format === 'png') {
+    return drawElements(label.elements, opts);
+  }
+  if (format === 'svg') {
+    return Buffer.from(await drawElementsToSvg(label.elements, opts), 'utf8');
+  }
+  if (format === 'pdf') {
+    return drawElementsToPdf([{ elements: label.elements, ...opts }]);
+  }
+  throw new Error(`Unsupported output format: ${format}`);
+}
+
+/**
+ * Renders the first label of a ZPL document.  The analyser splits the
+ * input into individual labels at ^XA/^XZ; render() returns the buffer
+ * for the first of them, except for PDF output, which holds them all.
+ * For documents containing multiple ^XA/^XZ sections use renderAll(),
+ * which returns every label.
+ *
+ * The image is sized from the label's ^PW and ^LL values.  When the
+ * ZPL leaves them out, `options.width` and `options.height` supply the
+ * default stock size in dots (e.g. 812 x 1218 for a 4x6 label at
+ * 203 dpi).  Without either the image shrinks to fit the content.
+ *
+ * `options.dpi` is the resolution of the target printer (default 203).
+ * It controls the native font sizes, dot based defaults and the page
+ * size of PDF output.  `options.scale` resizes PNG and SVG output, for
+ * instance 96 / 300 previews a 300 dpi label at screen size.
+ *
+ * `options.format` selects the output: 'png' (default), 'svg' or
+ * 'pdf'.  A PDF holds every label of the document, one per page, with
+ * the page size derived from the label size and the printer
+ * resolution.
+ *
+ * Problems that would otherwise go unnoticed, such as unsupported
+ * commands, graphics that were never downloaded or barcode data that
+ * cannot be encoded, are appended to `options.diagnostics` when it is
+ * an array.  Each entry has a `severity` ('warning' or 'error'), a
+ * machine readable `code`, a `message`, and the `command` text, its
+ * character `offset` in `zpl` and the index of the `label` at fault.
+ * With `options.strict` the first error throws a ZplDiagnosticError
+ * instead of leaving the field blank.
  *
  * @param {string} zpl A string of ZPL commands
- * @returns {Promise<Buffer>} PNG buffer containing the rendered label
+ * @param {RenderOptions} [options]
+ * @returns {Promise<Buffer>} Buffer containing the rendered label
  */
 
-export async function render(zpl) {
-  const labels = analyze(zpl);
+export async function render(
+  zpl: string,
+  options: RenderOptions = {}
+): Promise<Buffer> {
+  const labels = analyze(zpl, options);
   if (!labels || labels.length === 0) {
     throw new Error('No labels were detected in the supplied ZPL');
   }
   // Render the first label by default
-  const buffer = await drawElements(labels[0].elements);
+  if (options.format === 'pdf') {
+    const pages = labels.map((label) => ({
+      elements: label.elements,
+      ...labelOptions(label, options),
+    }));
+    return drawElementsToPdf(pages);
+  }
+  const buffer = await renderLabel(labels[0], options);
   return buffer;
 }
 
-export { analyze, drawElements };
\ No newline at end of file
+/**
+ * Renders every label of a ZPL document.  By default one buffer in the
+ * selected `options.format` is returned per ^XA/^XZ section, in
+ * document order.  PNG labels can instead be combined into a single
+ * output with `options.combine`:
+ *
+ *  - 'sheet': one tall PNG contact sheet with the labels stacked top
+ *    to bottom, separated by `options.gap` dots of white (default 20).
+ *  - 'tiff': one multi‑page TIFF document with a page per label.
+ *
+ * When combining, the returned array holds that single buffer.  Sizing
+ * and format options are the same as for render().
+ *
+ * With `options.expandQuantity` every printed copy is rendered: a label
+ * with ^PQ50 yields 50 outputs, with ^SN and ^SF serialized fields
+ * advanced on each copy (or on every replicates + 1 copies), up to
+ * 10,000 outputs per label.
+ *
+ * @param {string} zpl A string of ZPL commands
+ * @param {RenderAllOptions} [options]
+ * @returns {Promise<Buffer[]>} Rendered labels, or the combined document
+ */
+export async function renderAll(
+  zpl: string,
+  options: RenderAllOptions = {}
+): Promise<Buffer[]> {
+  const labels = analyze(zpl, options);
+  if (!labels || labels.length === 0) {
+    throw new Error('No labels were detected in the supplied ZPL');
+  }
+  const combine = options.combine;
+  if (combine !== undefined && combine !== 'sheet' && combine !== 'tiff') {
+    throw new Error(`Unsupported combine mode: ${combine}`);
+  }
+  if (combine && options.format && options.format !== 'png') {
+    throw new Error(`Cannot combine labels in ${options.format} format`);
+  }
+  if (combine) {
+    const bitmaps: Bitmap[] = [];
+    for (const label of labels) {
+      bitmaps.push(
+        await drawElementsToBitmap(label.elements, labelOptions(label, options))
+      );
+    }
+    if (combine === 'sheet') {
+      return [await encodePng(stackBitmaps(bitmaps, options.gap ?? 20))];
+    }
+    const scale = options.scale && options.scale > 0 ? options.scale : 1;
+    return [encodeTiff(bitmaps, labels[0].dpi * scale)];
+  }
+  // Separate outputs are encoded as we go so that only one bitmap is
+  // held in memory at a time.
+  const outputs: Buffer[] = [];
+  for (const label of labels) {
+    outputs.push(await renderLabel(label, options));
+  }
+  return outputs;
+}
+
+/**
+ * Renders a stored format (^DF) with the given field data, as if it
+ * had been recalled with ^XF and its fields filled with ^FN.  `values`
+ * maps field numbers, or the prompt text given with ^FN, to the data
+ * to print; fields without a value keep the format's own ^FD data.
+ * Values are used as they are, so they may contain any character,
+ * including ^ and ~.
+ *
+ * `options.formatName` selects the format when the template defines
+ * several (e.g. 'R:SHIPPING.ZPL'); by default the last one is used.
+ * A ZplDiagnosticError is thrown when the template does not define
+ * that format.  The other options are the same as for render().
+ *
+ * @param {string} template ZPL containing one or more ^DF formats
+ * @param {Record<string, string|number>} values Field data by number or
+ *   prompt
+ * @param {TemplateOptions} [options]
+ * @returns {Promise<Buffer>} Buffer containing the rendered label
+ */
+export async function renderTemplate(
+  template: string,
+  values: Record<string, string | number> = {},
+  options: TemplateOptions = {}
+): Promise<Buffer> {
+  const diagnostics: Diagnostic[] = [];
+  let labels: Label[];
+  try {
+    labels = analyze(template, {
+      ...options,
+      diagnostics,
+      recall: { name: options.formatName, values },
+    });
+  } finally {
+    if (Array.isArray(options.diagnostics)) {
+      options.diagnostics.push(...diagnostics);
+    }
+  }
+  // The recall added after the template is the one without an offset
+  const missing = diagnostics.find(
+    (d) => d.code === 'missing-format' && d.offset === null
+  );
+  if (missing) {
+    throw new ZplDiagnosticError(missing);
+  }
+  return renderLabel(labels[labels.length - 1], options);
+}
+
+/**
+ * Converts a PNG or JPEG image into a ZPL graphic command, ready to be
+ * embedded in a label.  By default a ^GFA graphic field is produced,
+ * to be placed after a ^FO; with `options.command` set to 'DG' a ~DG
+ * download is produced instead, stored as `options.name` (default
+ * R:IMAGE.GRF) and recalled with ^XG.
+ *
+ * The image is reduced to black and white: pixels darker than
+ * `options.threshold` (0–255, default 128) print.  `options.dither`
+ * selects 'floyd-steinberg' or 'ordered' dithering for photographs
+ * and gradients.  `options.compression` chooses between plain hex
+ * ('none', the default), ZPL ASCII compression ('ascii') and Z64
+ * ('z64'), which is usually the smallest.
+ *
+ * @param {Buffer} image PNG or JPEG image data
+ * @param {ImageToZplOptions} [options]
+ * @returns {Promise<string>} The ^GFA or ~DG command
+ */
+export async function imageToZpl(
+  image: Buffer,
+  options: ImageToZplOptions = {}
+): Promise<string> {
+  const command = (options.command || 'GF').toUpperCase();
+  if (command !== 'GF' && command !== 'DG') {
+    throw new Error(`Unsupported graphic command: ${options.command}`);
+  }
+  const bitmap = await decodeImage(image);
+  const { bytes, bytesPerRow, totalBytes } = bitmapToGrf(bitmap, options);
+  const data = encodeGrfData(bytes, bytesPerRow, options.compression);
+  if (command === 'DG') {
+    const name = options.name || 'R:IMAGE.GRF';
+    return `~DG${name},${totalBytes},${bytesPerRow},${data}`;
+  }
+  return `^GFA,${totalBytes},${totalBytes},${bytesPerRow},${data}`;
+}
+
+export {
+  ZplDiagnosticError,
+  analyze,
+  drawElements,
+  drawElementsToBitmap,
+  drawElementsToPdf,
+  drawElementsToSvg,
+  registerFont,
+};
+
+export type * from './src/types.js';
\ No newline at end of file
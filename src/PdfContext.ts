@@ -0,0 +1,286 @@
+import type { FontFace } from "./font.js";
+import VectorContext, { multiply, num, parseFont } from "./VectorContext.js";
+import type { PathSegment, Rect } from "./VectorContext.js";
+import { encodeWinAnsi, pdfString } from "./PdfDocument.js";
+
+import type { Bitmap } from "pureimage";
+import type PdfDocument from "./PdfDocument.js";
+import { getFontFace } from "./font.js";
+
+/*
+ * PdfContext records drawing operations as a PDF page content stream.
+ * The page is set up so that one unit of user space is one printer
+ * dot with the origin in the top‑left corner, matching the raster
+ * renderer; the dots are scaled to points from the printer
+ * resolution.  Text becomes real PDF text in an embedded TrueType
+ * font whenever it can be encoded in WinAnsiEncoding and glyph
+ * outlines otherwise.
+ */
+
+const NAMED_COLOURS: Record<string, number[]> = {
+  black: [0, 0, 0],
+  white: [1, 1, 1],
+};
+
+/** Converts a CSS style colour into PDF RGB components (0–1). */
+function colourComponents(style: string): number[] {
+  const value = String(style || "black").trim().toLowerCase();
+  if (NAMED_COLOURS[value]) {
+    return NAMED_COLOURS[value];
+  }
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(value);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3) {
+      digits = digits.replace(/./g, "$&$&");
+    }
+    return [0, 2, 4].map((i) => parseInt(digits.substr(i, 2), 16) / 255);
+  }
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(value);
+  if (rgb) {
+    return rgb[1]
+      .split(",")
+      .slice(0, 3)
+      .map((v) => Math.min(1, Math.max(0, parseFloat(v) / 255)));
+  }
+  return NAMED_COLOURS.black;
+}
+
+function colourOperator(style: string, op: string): string {
+  return `${colourComponents(style).map(num).join(" ")} ${op}`;
+}
+
+/** Serialises path segments into PDF path construction operators. */
+function pathOperators(path: PathSegment[]): string {
+  return path
+    .map(([op, ...args]) => {
+      const coords = args.map(num).join(" ");
+      switch (op) {
+        case "M":
+          return `${coords} m`;
+        case "L":
+          return `${coords} l`;
+        case "C":
+          return `${coords} c`;
+        default:
+          return "h";
+      }
+    })
+    .join("\n");
+}
+
+class PdfContext extends VectorContext {
+  doc: PdfDocument;
+  pointsPerDot: number;
+  ops: string[];
+  fonts: Map<string, number>;
+  images: Map<string, number>;
+  graphicsStates: Map<string, number>;
+
+  /**
+   * @param {number} width Page width in dots
+   * @param {number} height Page height in dots
+   * @param {PdfDocument} doc Document receiving fonts and images
+   * @param {number} dpi Printer resolution used to convert dots to points
+   */
+  constructor(width: number, height: number, doc: PdfDocument, dpi: number) {
+    super(width, height);
+    this.doc = doc;
+    this.pointsPerDot = 72 / dpi;
+    this.ops = [];
+    this.fonts = new Map();
+    this.images = new Map();
+    this.graphicsStates = new Map();
+  }
+
+  /**
+   * Returns the colour to paint with.  Reversed elements paint white
+   * in difference blend mode (see beginGroup()), which inverts the
+   * page underneath.
+   */
+  ink(style: string): string {
+    return this.reverse ? "white" : style;
+  }
+
+  beginGroup() {
+    if (this.reverse) {
+      const state = this.doc.differenceState();
+      this.graphicsStates.set(state.name, state.id);
+      this.ops.push("q", `/${state.name} gs`);
+    }
+  }
+
+  endGroup() {
+    if (this.reverse) {
+      this.ops.push("Q");
+    }
+  }
+
+  fillPath(path: PathSegment[], style: string) {
+    this.ops.push(
+      colourOperator(this.ink(style), "rg"),
+      pathOperators(path),
+      "f"
+    );
+  }
+
+  strokePath(path: PathSegment[], style: string, width: number) {
+    this.ops.push(
+      `${num(width)} w`,
+      colourOperator(this.ink(style), "RG"),
+      pathOperators(path),
+      "S"
+    );
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const { size, family } = parseFont(this.font);
+    const face = getFontFace(family);
+    if (!face) {
+      return;
+    }
+    const bytes = encodeWinAnsi(text);
+    if (!bytes || face.font.outlinesFormat === "cff") {
+      this.fillOutlines(face, text, x, y, size);
+      return;
+    }
+    const font = this.doc.embedFont(face, bytes);
+    this.fonts.set(font.name, font.id);
+    // Text space has y pointing up; flip it back to match the page
+    const m = multiply(this.matrix, [1, 0, 0, -1, x, y]);
+    this.ops.push(
+      colourOperator(this.ink(this.fillStyle), "rg"),
+      `BT /${font.name} ${num(size)} Tf ${m.map(num).join(" ")} Tm ${pdfString(
+        bytes
+      )} Tj ET`
+    );
+  }
+
+  /** Draws text as filled glyph outlines taken from the font file. */
+  fillOutlines(
+    face: FontFace,
+    text: string,
+    x: number,
+    y: number,
+    size: number
+  ) {
+    const outline = face.font.getPath(text, x, y, size);
+    const path = this.path;
+    this.beginPath();
+    let last = [x, y];
+    for (const cmd of outline.commands) {
+      switch (cmd.type) {
+        case "M":
+          this.moveTo(cmd.x, cmd.y);
+          break;
+        case "L":
+          this.lineTo(cmd.x, cmd.y);
+          break;
+        case "Q":
+          // Raise the quadratic segment to a cubic one
+          this.bezierCurveTo(
+            last[0] + ((cmd.x1 - last[0]) * 2) / 3,
+            last[1] + ((cmd.y1 - last[1]) * 2) / 3,
+            cmd.x + ((cmd.x1 - cmd.x) * 2) / 3,
+            cmd.y + ((cmd.y1 - cmd.y) * 2) / 3,
+            cmd.x,
+            cmd.y
+          );
+          break;
+        case "C":
+          this.bezierCurveTo(cmd.x1, cmd.y1, cmd.x2, cmd.y2, cmd.x, cmd.y);
+          break;
+        case "Z":
+          this.closePath();
+          break;
+      }
+      if (cmd.type !== "Z") {
+        last = [cmd.x, cmd.y];
+      }
+    }
+    this.fill();
+    this.path = path;
+  }
+
+  drawBitmap(image: Bitmap, src: Rect, dest: Rect) {
+    let { width, height, data } = image;
+    if (
+      src.x !== 0 ||
+      src.y !== 0 ||
+      src.width !== width ||
+      src.height !== height
+    ) {
+      // Crop to the source rectangle
+      const sx = Math.max(0, Math.floor(src.x));
+      const sy = Math.max(0, Math.floor(src.y));
+      const sw = Math.min(width - sx, Math.ceil(src.width));
+      const sh = Math.min(height - sy, Math.ceil(src.height));
+      if (sw <= 0 || sh <= 0) {
+        return;
+      }
+      const cropped = new Uint8Array(sw * sh * 4);
+      for (let row = 0; row < sh; row++) {
+        const start = ((sy + row) * width + sx) * 4;
+        cropped.set(data.subarray(start, start + sw * 4), row * sw * 4);
+      }
+      width = sw;
+      height = sh;
+      data = cropped;
+    }
+    if (this.reverse) {
+      // Dark pixels become white so that they invert the page
+      const inverted = Uint8Array.from(data);
+      for (let i = 0; i < inverted.length; i += 4) {
+        inverted[i] = 255 - inverted[i];
+        inverted[i + 1] = 255 - inverted[i + 1];
+        inverted[i + 2] = 255 - inverted[i + 2];
+      }
+      data = inverted;
+    }
+    const img = this.doc.addImage(width, height, data);
+    this.images.set(img.name, img.id);
+    this.ops.push(
+      "q",
+      `${this.matrix.map(num).join(" ")} cm`,
+      `${num(dest.width)} 0 0 ${num(-dest.height)} ${num(dest.x)} ${num(
+        dest.y + dest.height
+      )} cm`,
+      `/${img.name} Do`,
+      "Q"
+    );
+  }
+
+  fillRects(rects: Rect[]) {
+    if (rects.length === 0) {
+      return;
+    }
+    this.ops.push(
+      "q",
+      `${this.matrix.map(num).join(" ")} cm`,
+      this.reverse ? "1 1 1 rg" : "0 0 0 rg",
+      ...rects.map(
+        (r) => `${num(r.x)} ${num(r.y)} ${num(r.width)} ${num(r.height)} re`
+      ),
+      "f",
+      "Q"
+    );
+  }
+
+  /** Adds everything drawn so far to the document as a new page. */
+  finishPage() {
+    const s = this.pointsPerDot;
+    const pageWidth = this.width * s;
+    const pageHeight = this.height * s;
+    const content = [
+      `${num(s)} 0 0 ${num(-s)} 0 ${num(pageHeight)} cm`,
+      ...this.ops,
+    ].join("\n");
+    this.doc.addPage(pageWidth, pageHeight, content, {
+      fonts: this.fonts,
+      images: this.images,
+      states: this.graphicsStates,
+    });
+  }
+}
+
+export default PdfContext;
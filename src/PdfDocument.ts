@@ -0,0 +1,393 @@
+import type { FontFace } from "./font.js";
+import { subsetTrueType } from "./fontSubset.js";
+
+import zlib from "zlib";
+
+/*
+ * PdfDocument is a small in‑house PDF 1.4 writer.  It knows just
+ * enough of the format to produce label proofs: pages with a content
+ * stream, embedded TrueType fonts using WinAnsiEncoding and RGB image
+ * XObjects with an optional alpha mask.  All streams are
+ * Flate‑compressed.  Fonts are subset to the characters the document
+ * prints, so they are written out last, once every page is known.
+ */
+
+// Unicode code points for WinAnsiEncoding bytes 0x80–0x9F.  The rest
+// of the 0x20–0xFF range maps to the identical Latin‑1 code point.
+const WIN_ANSI_HIGH: Record<number, number> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178,
+};
+
+const UNICODE_TO_WIN_ANSI = new Map(
+  Object.entries(WIN_ANSI_HIGH).map(([code, cp]) => [cp, Number(code)])
+);
+
+/** Unicode code point for a WinAnsiEncoding byte, or undefined. */
+function winAnsiToUnicode(code: number): number | undefined {
+  if (code >= 0x80 && code <= 0x9f) {
+    return WIN_ANSI_HIGH[code];
+  }
+  return code;
+}
+
+/**
+ * Encodes text as WinAnsiEncoding bytes.  Returns null when a
+ * character cannot be represented, in which case callers should fall
+ * back to drawing glyph outlines.
+ *
+ * @param {string} text Text to encode
+ * @returns {number[]|null} Byte values
+ */
+export function encodeWinAnsi(text: string): number[] | null {
+  const bytes: number[] = [];
+  for (const ch of text) {
+    const cp = ch.codePointAt(0)!;
+    const code = UNICODE_TO_WIN_ANSI.get(cp);
+    if ((cp >= 0x20 && cp <= 0x7e) || (cp >= 0xa0 && cp <= 0xff)) {
+      bytes.push(cp);
+    } else if (code !== undefined) {
+      bytes.push(code);
+    } else {
+      return null;
+    }
+  }
+  return bytes;
+}
+
+/** Formats bytes as a PDF literal string, escaping as required. */
+export function pdfString(bytes: number[]): string {
+  let out = "(";
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) {
+      out += "\\" + String.fromCharCode(b);
+    } else if (b < 0x20 || b > 0x7e) {
+      out += "\\" + b.toString(8).padStart(3, "0");
+    } else {
+      out += String.fromCharCode(b);
+    }
+  }
+  return out + ")";
+}
+
+/** Turns an arbitrary name into a valid PDF name token (without '/'). */
+function pdfName(name: string): string {
+  return String(name).replace(/[^A-Za-z0-9+\-_.]/g, "") || "Font";
+}
+
+// A font embedded in the document and the characters printed with it
+interface FontEntry {
+  name: string;
+  id: number;
+  face: FontFace;
+  codes: Set<number>;
+}
+
+class PdfDocument {
+  objects: Array<Buffer | string | null>;
+  pageIds: number[];
+  fonts: Map<string, FontEntry>;
+  imageCount: number;
+  differenceStateId: number | null;
+  catalogId: number;
+  pagesId: number;
+
+  constructor() {
+    // Object bodies indexed by object number - 1
+    this.objects = [];
+    this.pageIds = [];
+    // Embedded fonts keyed by family
+    this.fonts = new Map();
+    this.imageCount = 0;
+    // Graphics state for reversed elements, created on first use
+    this.differenceStateId = null;
+    this.catalogId = this.reserve();
+    this.pagesId = this.reserve();
+  }
+
+  /** Reserves an object number whose body is supplied later with set(). */
+  reserve(): number {
+    this.objects.push(null);
+    return this.objects.length;
+  }
+
+  /** Sets the body of a reserved object. */
+  set(id: number, body: Buffer | string) {
+    this.objects[id - 1] = body;
+  }
+
+  /** Adds an object and returns its number. */
+  add(body: Buffer | string): number {
+    const id = this.reserve();
+    this.set(id, body);
+    return id;
+  }
+
+  /**
+   * Adds a Flate‑compressed stream object.
+   * @param {string} dict Additional dictionary entries
+   * @param {Buffer|string} data Uncompressed stream data
+   * @returns {number} Object number
+   */
+  addStream(dict: string, data: Buffer | string): number {
+    const compressed = zlib.deflateSync(
+      Buffer.isBuffer(data) ? data : Buffer.from(data, "latin1")
+    );
+    return this.add(
+      Buffer.concat([
+        Buffer.from(
+          `<< ${dict} /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`,
+          "latin1"
+        ),
+        compressed,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    );
+  }
+
+  /**
+   * Embeds a TrueType font once per document and returns the name it is
+   * referenced by in page resources.  The characters printed with it
+   * are collected for the subset written by toBuffer().  Fonts with
+   * CFF outlines cannot be embedded this way; callers draw their text
+   * as outlines.
+   *
+   * @param {FontFace} face Font face from getFontFace()
+   * @param {number[]} bytes WinAnsiEncoding bytes of the text printed
+   * @returns {{name: string, id: number}}
+   */
+  embedFont(face: FontFace, bytes: number[]): { name: string; id: number } {
+    let entry = this.fonts.get(face.family);
+    if (!entry) {
+      entry = {
+        name: `F${this.fonts.size + 1}`,
+        id: this.reserve(),
+        face,
+        codes: new Set(),
+      };
+      this.fonts.set(face.family, entry);
+    }
+    for (const code of bytes) {
+      entry.codes.add(code);
+    }
+    return { name: entry.name, id: entry.id };
+  }
+
+  /**
+   * Writes the font objects of an embedded font: the font dictionary,
+   * its descriptor and the font file, subset to the characters used.
+   * The subset is tagged, as PDF requires, with six letters derived
+   * from its characters.
+   *
+   * @param {FontEntry} entry
+   */
+  writeFont({ id, face, codes }: FontEntry) {
+    const font = face.font;
+    const unitsPerEm = font.unitsPerEm || 1000;
+    const scale = (v: number) => Math.round((v * 1000) / unitsPerEm);
+    const used = [...codes].sort((a, b) => a - b);
+    const chars = new Map<number, number>();
+    let tag = 0;
+    for (const code of used) {
+      const cp = winAnsiToUnicode(code)!;
+      const glyph = font.charToGlyph(String.fromCodePoint(cp));
+      chars.set(cp, glyph ? glyph.index : 0);
+      tag = (tag * 31 + code) % 308915776;
+    }
+    const prefix = [0, 1, 2, 3, 4, 5]
+      .map((i) => String.fromCharCode(65 + (Math.floor(tag / 26 ** i) % 26)))
+      .join("");
+    const baseFont = `${prefix}+${pdfName(
+      (font.names &&
+        font.names.postScriptName &&
+        font.names.postScriptName.en) ||
+        face.family
+    )}`;
+    const firstChar = used[0];
+    const lastChar = used[used.length - 1];
+    const widths: number[] = [];
+    for (let code = firstChar; code <= lastChar; code++) {
+      const cp = winAnsiToUnicode(code);
+      const glyph =
+        cp === undefined || !codes.has(code)
+          ? null
+          : font.charToGlyph(String.fromCodePoint(cp));
+      widths.push(glyph ? scale(glyph.advanceWidth || 0) : 0);
+    }
+    const head = font.tables.head || {};
+    const os2 = font.tables.os2 || {};
+    const data = subsetTrueType(face.data, chars);
+    const fileId = this.addStream(`/Length1 ${data.length}`, data);
+    const descriptorId = this.add(
+      `<< /Type /FontDescriptor /FontName /${baseFont} /Flags 32` +
+        ` /FontBBox [${[head.xMin, head.yMin, head.xMax, head.yMax]
+          .map((v) => scale(v || 0))
+          .join(" ")}]` +
+        ` /ItalicAngle 0 /Ascent ${scale(font.ascender || 0)}` +
+        ` /Descent ${scale(font.descender || 0)}` +
+        ` /CapHeight ${scale(os2.sCapHeight || font.ascender || 0)}` +
+        ` /StemV 80 /FontFile2 ${fileId} 0 R >>`
+    );
+    this.set(
+      id,
+      `<< /Type /Font /Subtype /TrueType /BaseFont /${baseFont}` +
+        ` /FirstChar ${firstChar} /LastChar ${lastChar}` +
+        ` /Widths [${widths.join(" ")}]` +
+        ` /Encoding /WinAnsiEncoding /FontDescriptor ${descriptorId} 0 R >>`
+    );
+  }
+
+  /**
+   * Adds an image XObject built from RGBA pixels.  A soft mask is
+   * attached only when the image has transparent pixels.
+   *
+   * @param {number} width Image width in pixels
+   * @param {number} height Image height in pixels
+   * @param {Uint8Array} rgba Pixel data, four bytes per pixel
+   * @returns {{name: string, id: number}}
+   */
+  addImage(
+    width: number,
+    height: number,
+    rgba: Uint8Array
+  ): { name: string; id: number } {
+    const rgb = Buffer.alloc(width * height * 3);
+    const alpha = Buffer.alloc(width * height);
+    let transparent = false;
+    for (let i = 0; i < width * height; i++) {
+      rgb[i * 3] = rgba[i * 4];
+      rgb[i * 3 + 1] = rgba[i * 4 + 1];
+      rgb[i * 3 + 2] = rgba[i * 4 + 2];
+      alpha[i] = rgba[i * 4 + 3];
+      if (alpha[i] !== 255) {
+        transparent = true;
+      }
+    }
+    const common = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /BitsPerComponent 8`;
+    let smask = "";
+    if (transparent) {
+      const maskId = this.addStream(`${common} /ColorSpace /DeviceGray`, alpha);
+      smask = ` /SMask ${maskId} 0 R`;
+    }
+    const id = this.addStream(`${common} /ColorSpace /DeviceRGB${smask}`, rgb);
+    this.imageCount++;
+    return { name: `Im${this.imageCount}`, id };
+  }
+
+  /**
+   * Returns the graphics state that blends in difference mode, used to
+   * print reversed elements.  It is added once per document.
+   *
+   * @returns {{name: string, id: number}}
+   */
+  differenceState(): { name: string; id: number } {
+    if (this.differenceStateId === null) {
+      this.differenceStateId = this.add(
+        "<< /Type /ExtGState /BM /Difference >>"
+      );
+    }
+    return { name: "GSDiff", id: this.differenceStateId };
+  }
+
+  /**
+   * Appends a page.
+   *
+   * @param {number} width Page width in points
+   * @param {number} height Page height in points
+   * @param {string} content Page content stream
+   * @param {{fonts: Map<string, number>, images: Map<string, number>, states?: Map<string, number>}} resources
+   *   Resource names used by the content, mapped to object numbers
+   */
+  addPage(
+    width: number,
+    height: number,
+    content: string,
+    resources: {
+      fonts: Map<string, number>;
+      images: Map<string, number>;
+      states?: Map<string, number>;
+    }
+  ) {
+    const contentId = this.addStream("", content);
+    const fonts = [...resources.fonts]
+      .map(([name, id]) => `/${name} ${id} 0 R`)
+      .join(" ");
+    const images = [...resources.images]
+      .map(([name, id]) => `/${name} ${id} 0 R`)
+      .join(" ");
+    const states = [...(resources.states || [])]
+      .map(([name, id]) => `/${name} ${id} 0 R`)
+      .join(" ");
+    const pageId = this.add(
+      `<< /Type /Page /Parent ${this.pagesId} 0 R` +
+        ` /MediaBox [0 0 ${+width.toFixed(3)} ${+height.toFixed(3)}]` +
+        ` /Resources << /ProcSet [/PDF /Text /ImageC] /Font << ${fonts} >> /XObject << ${images} >>` +
+        (states ? ` /ExtGState << ${states} >>` : "") +
+        ` >>` +
+        ` /Contents ${contentId} 0 R >>`
+    );
+    this.pageIds.push(pageId);
+  }
+
+  /** Serialises the document. */
+  toBuffer(): Buffer {
+    for (const entry of this.fonts.values()) {
+      this.writeFont(entry);
+    }
+    this.set(this.catalogId, `<< /Type /Catalog /Pages ${this.pagesId} 0 R >>`);
+    this.set(
+      this.pagesId,
+      `<< /Type /Pages /Kids [${this.pageIds
+        .map((id) => `${id} 0 R`)
+        .join(" ")}] /Count ${this.pageIds.length} >>`
+    );
+    const chunks = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    this.objects.forEach((body, index) => {
+      offsets.push(offset);
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+        Buffer.isBuffer(body) ? body : Buffer.from(body as string, "latin1"),
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+    const size = this.objects.length + 1;
+    let xref = `xref\n0 ${size}\n0000000000 65535 f \n`;
+    for (const o of offsets) {
+      xref += `${String(o).padStart(10, "0")} 00000 n \n`;
+    }
+    xref += `trailer\n<< /Size ${size} /Root ${this.catalogId} 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+    chunks.push(Buffer.from(xref, "latin1"));
+    return Buffer.concat(chunks);
+  }
+}
+
+export default PdfDocument;
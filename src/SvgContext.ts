@@ -0,0 +1,167 @@
+import VectorContext, { num, parseFont } from "./VectorContext.js";
+import type { PathSegment, Rect } from "./VectorContext.js";
+
+import type { Bitmap } from "pureimage";
+
+import { PNG } from "pngjs";
+import { getFontFace } from "./font.js";
+
+/*
+ * SvgContext records drawing operations as SVG markup.  Together with
+ * VectorContext it lets the drawers in src/drawers produce a vector
+ * document with the same code that draws onto a pureimage bitmap.
+ * Geometry is emitted in label coordinates; text and images keep the
+ * current transform as a matrix() attribute.
+ */
+
+/** Escapes text for use inside SVG element content or attributes. */
+export function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Serialises path segments into SVG path data. */
+function pathData(path: PathSegment[]): string {
+  return path.map(([op, ...args]) => op + args.map(num).join(" ")).join("");
+}
+
+class SvgContext extends VectorContext {
+  parts: string[];
+  outputScale: number;
+  embeddedFonts: Map<string, Buffer>;
+
+  constructor(width: number, height: number) {
+    super(width, height);
+    this.parts = [];
+    // Factor between the displayed size and the label size in dots
+    this.outputScale = 1;
+    // Fonts registered by the caller or downloaded by the label, which
+    // viewers cannot know, are embedded in the document
+    this.embeddedFonts = new Map();
+  }
+
+  matrixAttribute() {
+    if (this.isIdentity()) {
+      return "";
+    }
+    return ` transform="matrix(${this.matrix.map(num).join(" ")})"`;
+  }
+
+  fillPath(path: PathSegment[], style: string) {
+    this.parts.push(
+      `<path d="${pathData(path)}" fill="${escapeXml(style)}"/>`
+    );
+  }
+
+  strokePath(path: PathSegment[], style: string, width: number) {
+    this.parts.push(
+      `<path d="${pathData(path)}" fill="none" stroke="${escapeXml(
+        style
+      )}" stroke-width="${num(width)}"/>`
+    );
+  }
+
+  fillText(text: string, x: number, y: number) {
+    const { size, family } = parseFont(this.font);
+    const face = getFontFace(family);
+    if (face && face.custom && !this.embeddedFonts.has(face.family)) {
+      this.embeddedFonts.set(face.family, face.data);
+    }
+    this.parts.push(
+      `<text x="${num(x)}" y="${num(y)}"${this.matrixAttribute()} ` +
+        `font-family="'${escapeXml(family)}', sans-serif" font-size="${num(
+          size
+        )}" fill="${escapeXml(this.fillStyle)}" xml:space="preserve">${escapeXml(
+          text
+        )}</text>`
+    );
+  }
+
+  /** Embeds the bitmap as a PNG data URI. */
+  drawBitmap(image: Bitmap, src: Rect, dest: Rect) {
+    const png = new PNG({ width: image.width, height: image.height });
+    png.data = Buffer.from(image.data);
+    const href = `data:image/png;base64,${PNG.sync
+      .write(png)
+      .toString("base64")}`;
+    this.parts.push(
+      `<g${this.matrixAttribute()}><svg x="${num(dest.x)}" y="${num(
+        dest.y
+      )}" width="${num(dest.width)}" height="${num(
+        dest.height
+      )}" viewBox="${[src.x, src.y, src.width, src.height]
+        .map(num)
+        .join(" ")}" preserveAspectRatio="none">` +
+        `<image width="${image.width}" height="${image.height}" href="${href}" image-rendering="pixelated"/></svg></g>`
+    );
+  }
+
+  fillRects(rects: Rect[]) {
+    const body = rects
+      .map(
+        (r) =>
+          `<rect x="${num(r.x)}" y="${num(r.y)}" width="${num(
+            r.width
+          )}" height="${num(r.height)}"/>`
+      )
+      .join("");
+    this.parts.push(
+      `<g${this.matrixAttribute()} fill="black" shape-rendering="crispEdges">${body}</g>`
+    );
+  }
+
+  /**
+   * Opens a group that wraps everything drawn until the matching
+   * endGroup() call.  Attribute values are escaped.  A reversed group
+   * turns its black ink white and blends it in difference mode, which
+   * inverts whatever lies underneath.
+   *
+   * @param {object} attributes Attribute names and values for the <g> element
+   */
+  beginGroup(attributes: Record<string, string | number> = {}) {
+    if (this.reverse) {
+      attributes = {
+        ...attributes,
+        style: "filter:invert(1);mix-blend-mode:difference",
+      };
+    }
+    const attrs = Object.entries(attributes)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join("");
+    this.parts.push(`<g${attrs}>`);
+  }
+
+  endGroup() {
+    this.parts.push("</g>");
+  }
+
+  /** Serialises everything drawn so far into a standalone SVG document. */
+  toString() {
+    const w = num(this.width);
+    const h = num(this.height);
+    const displayW = num(this.width * this.outputScale);
+    const displayH = num(this.height * this.outputScale);
+    const fontFaces = [...this.embeddedFonts]
+      .map(
+        ([family, data]) =>
+          `@font-face{font-family:'${escapeXml(
+            family
+          )}';src:url(data:font/ttf;base64,${data.toString("base64")})}`
+      )
+      .join("");
+    const style = fontFaces ? `<style>${fontFaces}</style>` : "";
+    return (
+      `<?xml version="1.0" encoding="UTF-8"?>\n` +
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${displayW}" height="${displayH}" viewBox="0 0 ${w} ${h}">` +
+      style +
+      this.parts.join("") +
+      `</svg>\n`
+    );
+  }
+}
+
+export default SvgContext;
@@ -0,0 +1,438 @@
+import * as PImage from "pureimage";
+
+import type { Bitmap } from "pureimage";
+
+/*
+ * VectorContext implements the subset of the CanvasRenderingContext2D
+ * API that the drawers in src/drawers use, for backends that record
+ * vector output instead of rasterising (SVG, PDF).  It keeps the
+ * transform and style state and builds paths; subclasses decide how
+ * filled and stroked paths, text and images are written out.
+ *
+ * Paths are transformed into label coordinates as they are built, so
+ * a finished path is independent of the transform stack.  Each path
+ * is a list of segments: ['M', x, y], ['L', x, y],
+ * ['C', x1, y1, x2, y2, x, y] and ['Z'].
+ */
+
+/** Affine transform in [a, b, c, d, e, f] form. */
+export type Matrix = number[];
+
+/** Segment of a path: a letter followed by its coordinates. */
+export type PathSegment = [string, ...number[]];
+
+/** Rectangle in the coordinates of its context. */
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Identity transform in [a, b, c, d, e, f] form
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Multiplies two affine transforms given in [a, b, c, d, e, f] form. */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+/** Formats a number compactly for textual vector formats. */
+export function num(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(+value.toFixed(3));
+}
+
+/**
+ * Splits a pureimage/CSS style font string (e.g. "20pt 'DejaVu Sans'")
+ * into its pixel size and family name.
+ */
+export function parseFont(font: string): { size: number; family: string } {
+  const match = /^\s*([\d.]+)\w*\s+(.+)$/.exec(font || "");
+  if (!match) {
+    return { size: 10, family: "DejaVu Sans" };
+  }
+  return {
+    size: parseFloat(match[1]),
+    family: match[2].trim().replace(/^['"]|['"]$/g, ""),
+  };
+}
+
+/** Whether the pixel at byte offset `i` of an RGBA buffer counts as ink. */
+function isDark(data: Uint8Array, i: number): boolean {
+  return (
+    data[i + 3] >= 128 &&
+    0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 128
+  );
+}
+
+/**
+ * Collects the dark pixels of a bitmap into rectangles.  Runs of dark
+ * pixels are found per row and merged with identical runs on the rows
+ * below, so a linear barcode yields one rectangle per bar and a matrix
+ * symbol one per run of modules.
+ *
+ * @param {Bitmap} image pureimage bitmap (RGBA)
+ * @returns {Rect[]}
+ */
+export function bitmapToRects(image: Bitmap): Rect[] {
+  const { width, height, data } = image;
+  const rects: Rect[] = [];
+  let open = new Map<string, Rect>();
+  for (let y = 0; y < height; y++) {
+    const next = new Map<string, Rect>();
+    let x = 0;
+    while (x < width) {
+      if (!isDark(data, (y * width + x) * 4)) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < width && isDark(data, (y * width + x) * 4)) {
+        x++;
+      }
+      const key = `${start},${x}`;
+      const rect = open.get(key) || { x: start, y, width: x - start, height: 0 };
+      rect.height++;
+      open.delete(key);
+      next.set(key, rect);
+    }
+    for (const rect of open.values()) {
+      rects.push(rect);
+    }
+    open = next;
+  }
+  for (const rect of open.values()) {
+    rects.push(rect);
+  }
+  return rects;
+}
+
+// Drawing state kept by save() and restore()
+interface State {
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  font: string;
+}
+
+class VectorContext {
+  width: number;
+  height: number;
+  states: State[];
+  matrix: Matrix;
+  fillStyle: string;
+  strokeStyle: string;
+  lineWidth: number;
+  font: string;
+  path: PathSegment[];
+  bitmapsAsRects: boolean;
+  reverse: boolean;
+  measureCtx: PImage.Context;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.states = [];
+    this.matrix = IDENTITY.slice();
+    this.fillStyle = "black";
+    this.strokeStyle = "black";
+    this.lineWidth = 1;
+    this.font = "10pt 'DejaVu Sans'";
+    this.path = [];
+    // When true, drawImage() emits the dark pixels of the image as
+    // rectangles instead of embedding it.  Set for barcodes so that
+    // bars and matrix modules stay crisp at any zoom level.
+    this.bitmapsAsRects = false;
+    // When true, the current element is printed in reverse (^FR, ^LR):
+    // wherever it puts ink the output underneath is inverted.  Set
+    // before beginGroup() so backends can prepare the group for it.
+    this.reverse = false;
+    // Scratch raster context used for text measurement
+    this.measureCtx = PImage.make(1, 1).getContext("2d");
+  }
+
+  save() {
+    this.states.push({
+      matrix: this.matrix.slice(),
+      fillStyle: this.fillStyle,
+      strokeStyle: this.strokeStyle,
+      lineWidth: this.lineWidth,
+      font: this.font,
+    });
+  }
+
+  restore() {
+    const state = this.states.pop();
+    if (state) {
+      Object.assign(this, state);
+    }
+  }
+
+  translate(x: number, y: number) {
+    this.matrix = multiply(this.matrix, [1, 0, 0, 1, x, y]);
+  }
+
+  rotate(angle: number) {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    this.matrix = multiply(this.matrix, [cos, sin, -sin, cos, 0, 0]);
+  }
+
+  scale(sx: number, sy: number) {
+    this.matrix = multiply(this.matrix, [sx, 0, 0, sy, 0, 0]);
+  }
+
+  /** Maps a point from user space into label coordinates. */
+  transformPoint(x: number, y: number): [number, number] {
+    const m = this.matrix;
+    return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+  }
+
+  /** Approximate scale of the current transform, used for line widths. */
+  transformScale() {
+    const m = this.matrix;
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+  }
+
+  /** Whether the current transform is the identity. */
+  isIdentity() {
+    return this.matrix.every((v, i) => v === IDENTITY[i]);
+  }
+
+  beginPath() {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number) {
+    this.path.push(["M", ...this.transformPoint(x, y)]);
+  }
+
+  lineTo(x: number, y: number) {
+    if (this.path.length === 0) {
+      this.moveTo(x, y);
+      return;
+    }
+    this.path.push(["L", ...this.transformPoint(x, y)]);
+  }
+
+  bezierCurveTo(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    x: number,
+    y: number
+  ) {
+    this.path.push([
+      "C",
+      ...this.transformPoint(x1, y1),
+      ...this.transformPoint(x2, y2),
+      ...this.transformPoint(x, y),
+    ]);
+  }
+
+  /**
+   * Adds a circular arc, approximated with one cubic Bézier segment per
+   * quarter turn.  Working with Béziers keeps the arc exact under any
+   * affine transform.
+   */
+  arc(
+    cx: number,
+    cy: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    counterclockwise = false
+  ) {
+    let sweep = endAngle - startAngle;
+    if (counterclockwise) {
+      sweep = -sweep;
+    }
+    if (Math.abs(sweep) >= Math.PI * 2) {
+      sweep = Math.sign(sweep || 1) * Math.PI * 2;
+    }
+    const direction = counterclockwise ? -1 : 1;
+    const startX = cx + radius * Math.cos(startAngle);
+    const startY = cy + radius * Math.sin(startAngle);
+    if (this.path.length === 0) {
+      this.moveTo(startX, startY);
+    } else {
+      this.lineTo(startX, startY);
+    }
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+    const step = (direction * Math.abs(sweep)) / segments;
+    const k = (4 / 3) * Math.tan(step / 4);
+    let angle = startAngle;
+    for (let i = 0; i < segments; i++) {
+      const a1 = angle;
+      const a2 = angle + step;
+      this.bezierCurveTo(
+        cx + radius * (Math.cos(a1) - k * Math.sin(a1)),
+        cy + radius * (Math.sin(a1) + k * Math.cos(a1)),
+        cx + radius * (Math.cos(a2) + k * Math.sin(a2)),
+        cy + radius * (Math.sin(a2) - k * Math.cos(a2)),
+        cx + radius * Math.cos(a2),
+        cy + radius * Math.sin(a2)
+      );
+      angle = a2;
+    }
+  }
+
+  rect(x: number, y: number, width: number, height: number) {
+    this.moveTo(x, y);
+    this.lineTo(x + width, y);
+    this.lineTo(x + width, y + height);
+    this.lineTo(x, y + height);
+    this.closePath();
+  }
+
+  closePath() {
+    if (this.path.length > 0) {
+      this.path.push(["Z"]);
+    }
+  }
+
+  fill() {
+    if (this.path.length > 0) {
+      this.fillPath(this.path, this.fillStyle);
+    }
+  }
+
+  stroke() {
+    if (this.path.length > 0) {
+      this.strokePath(
+        this.path,
+        this.strokeStyle,
+        this.lineWidth * this.transformScale()
+      );
+    }
+  }
+
+  fillRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.fill();
+    this.path = path;
+  }
+
+  strokeRect(x: number, y: number, width: number, height: number) {
+    const path = this.path;
+    this.beginPath();
+    this.rect(x, y, width, height);
+    this.stroke();
+    this.path = path;
+  }
+
+  measureText(text: string) {
+    this.measureCtx.font = this.font;
+    return this.measureCtx.measureText(text);
+  }
+
+  /**
+   * Draws a pureimage bitmap.  Accepts the same three argument forms as
+   * the canvas API: (image, dx, dy), (image, dx, dy, dw, dh) and
+   * (image, sx, sy, sw, sh, dx, dy, dw, dh).  In user space the source
+   * rectangle is mapped onto the destination rectangle; subclasses
+   * receive both together with the current transform.
+   */
+  drawImage(image: Bitmap, ...args: number[]) {
+    let [sx, sy, sw, sh] = [0, 0, image.width, image.height];
+    let dx: number;
+    let dy: number;
+    let dw = image.width;
+    let dh = image.height;
+    if (args.length >= 8) {
+      [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+    } else if (args.length >= 4) {
+      [dx, dy, dw, dh] = args;
+    } else {
+      [dx, dy] = args;
+    }
+    const src = { x: sx, y: sy, width: sw, height: sh };
+    const dest = { x: dx, y: dy, width: dw, height: dh };
+    if (!this.bitmapsAsRects) {
+      this.drawBitmap(image, src, dest);
+      return;
+    }
+    const scaleX = dw / sw;
+    const scaleY = dh / sh;
+    const rects: Rect[] = [];
+    for (const r of bitmapToRects(image)) {
+      const x0 = Math.max(r.x, sx);
+      const y0 = Math.max(r.y, sy);
+      const x1 = Math.min(r.x + r.width, sx + sw);
+      const y1 = Math.min(r.y + r.height, sy + sh);
+      if (x1 > x0 && y1 > y0) {
+        rects.push({
+          x: dx + (x0 - sx) * scaleX,
+          y: dy + (y0 - sy) * scaleY,
+          width: (x1 - x0) * scaleX,
+          height: (y1 - y0) * scaleY,
+        });
+      }
+    }
+    this.fillRects(rects);
+  }
+
+  /* eslint-disable no-unused-vars */
+  /**
+   * Marks the start of an element's output.  Backends that can keep
+   * elements apart (SVG groups) override this; the default does
+   * nothing.
+   *
+   * @param {object} attributes Descriptive attributes of the element
+   */
+  beginGroup(attributes: Record<string, string | number> = {}) {}
+
+  /** Marks the end of the output started with beginGroup(). */
+  endGroup() {}
+
+  /**
+   * Writes out a filled path.
+   * @param {PathSegment[]} path Segments in label coordinates
+   * @param {string} style Fill colour
+   */
+  fillPath(path: PathSegment[], style: string): void {
+    throw new Error("fillPath() not implemented");
+  }
+
+  /**
+   * Writes out a stroked path.
+   * @param {PathSegment[]} path Segments in label coordinates
+   * @param {string} style Stroke colour
+   * @param {number} width Line width in label coordinates
+   */
+  strokePath(path: PathSegment[], style: string, width: number): void {
+    throw new Error("strokePath() not implemented");
+  }
+
+  /** Draws text at (x, y) in user space using the current font. */
+  fillText(text: string, x: number, y: number): void {
+    throw new Error("fillText() not implemented");
+  }
+
+  /**
+   * Embeds a bitmap, mapping `src` (in image pixels) onto `dest` (in
+   * user space, under the current transform).
+   */
+  drawBitmap(image: Bitmap, src: Rect, dest: Rect): void {
+    throw new Error("drawBitmap() not implemented");
+  }
+
+  /** Fills black rectangles given in user space (current transform). */
+  fillRects(rects: Rect[]): void {
+    throw new Error("fillRects() not implemented");
+  }
+  /* eslint-enable no-unused-vars */
+}
+
+export default VectorContext;
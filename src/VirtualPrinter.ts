@@ -1,3 +1,17 @@
+import type {
+  BarcodeOptions,
+  DownloadedFont,
+  FieldBlock,
+  Graphic,
+  Orientation,
+  OriginType,
+  Quantity,
+  TextBlock,
+  ZplCommand,
+} from './types.js';
+import { decodeFieldData } from './encoding.js';
+import { getBitmapFontMatrix } from './font.js';
+
 /*
  * VirtualPrinter is a light‑weight state holder used during ZPL parsing.
  * It models the temporary state of a Zebra printer as it interprets
@@ -7,8 +21,124 @@
  * properties can be added in the future to widen support.
  */
 
+// Resolution the dot based defaults below are tuned for (8 dots/mm)
+const REFERENCE_DPI = 203;
+
+/** Position of the next field (^FO, ^FT). */
+export interface FieldPosition {
+  x: number;
+  y: number;
+  bottom: boolean;
+  originType: OriginType;
+}
+
+/** Settings of a barcode command (^B) waiting for its field data. */
+export interface BarcodeSpec {
+  /** bwip-js encoder */
+  codeType: string;
+  orientation: Orientation;
+  height: number;
+  width?: number;
+  moduleWidth: number;
+  ratio: number;
+  options: BarcodeOptions;
+  printInterpretation?: boolean;
+  printAbove?: boolean;
+}
+
+/** Settings of a graphic symbol (^GS) waiting for its field data. */
+export interface SymbolSpec {
+  orientation: Orientation;
+  height: number;
+  width: number;
+}
+
+/** Font configuration of the next text field, see getFont(). */
+export interface FontSettings {
+  name: string;
+  orientation: Orientation;
+  height: number;
+  width: number;
+  file: string | null;
+}
+
 class VirtualPrinter {
-  constructor() {
+  dpi: number;
+  printWidth: number | null;
+  labelLength: number | null;
+  units: 'D' | 'I' | 'M';
+  unitConversion: number;
+  charset: number;
+  charRemap: Map<number, number> | null;
+  graphics: Record<string, Graphic>;
+  formats: Record<string, ZplCommand[]>;
+  fonts: Record<string, DownloadedFont>;
+  fontAliases: Record<string, string>;
+  labelReverse: boolean;
+  printOrientation: 'N' | 'I';
+  mirror: boolean;
+  labelShift: number;
+  labelTop: number;
+  // Format state, set by reset()
+  nextPosition!: FieldPosition | null;
+  fontName!: string;
+  fontHeight!: number;
+  fontWidth!: number;
+  fontFile!: string | null;
+  orientation!: Orientation;
+  barcodeModuleWidth!: number;
+  barcodeRatio!: number;
+  barcodeHeight!: number;
+  pendingBarcode!: BarcodeSpec | null;
+  pendingSymbol!: SymbolSpec | null;
+  labelHome!: { x: number; y: number };
+  quantity!: Quantity;
+  hexIndicator!: string | null;
+  fieldNumber!: number | null;
+  fieldPrompt!: string | null;
+  fieldHasData!: boolean;
+  reverseNext!: boolean;
+  fieldBlock!: FieldBlock | TextBlock | null;
+  fieldOrientation!: Orientation | null;
+
+  /**
+   * @param {number} [dpi=203] Printer resolution in dots per inch.  It
+   *   determines the native size of the resident fonts, the dot size
+   *   of the defaults and the conversion of physical units.
+   */
+  constructor(dpi = REFERENCE_DPI) {
+    this.dpi = dpi > 0 ? dpi : REFERENCE_DPI;
+    // Print width (^PW) and label length (^LL) are printer settings
+    // rather than format state: once sent they stay in effect for
+    // every following label, so they live outside reset().
+    this.printWidth = null;
+    this.labelLength = null;
+    // Unit of measure (^MU): 'D' dots, 'I' inches or 'M' millimetres.
+    // Like ^PW it stays in effect across labels.
+    this.units = 'D';
+    // Factor applied to dot values by the ^MU base/desired dpi form
+    this.unitConversion = 1;
+    // Character set (^CI) and its byte remapping, which also persist
+    this.charset = 0;
+    this.charRemap = null;
+    // Object storage.  Downloaded graphics (~DG, ~DY and similar) and
+    // stored formats (^DF) are keyed by their full name, e.g.
+    // "R:SAMPLE.GRF", and stay available to every following label.
+    this.graphics = {};
+    this.formats = {};
+    // Fonts downloaded with ~DU, ~DT, ~DY or ~DB, by the same names,
+    // and the font designators assigned to font files with ^CW
+    this.fonts = {};
+    this.fontAliases = {};
+    // Label reverse (^LR) stays in effect until ^LRN, across labels
+    this.labelReverse = false;
+    // Whole-label placement, also kept across labels: print
+    // orientation (^PO, 'N' or 'I' for upside down), mirror image
+    // (^PM), and the label shift (^LS) and label top (^LT) in dots
+    this.printOrientation = 'N';
+    this.mirror = false;
+    this.labelShift = 0;
+    this.labelTop = 0;
     this.reset();
   }
 
@@ -20,35 +150,155 @@ class VirtualPrinter {
   reset() {
     // Positioning for the next element
     this.nextPosition = null;
-    // Default font settings (ZPL font 0 at 10 dots high)
+    // Default font settings (ZPL font 0 at 10 dots high on 8 dots/mm)
     this.fontName = '0';
-    this.fontHeight = 10;
+    this.fontHeight = this.scaleDefault(10);
     this.fontWidth = 0;
+    // Font file selected with ^A@, e.g. "E:ARI000.TTF"
+    this.fontFile = null;
     this.orientation = 'N'; // N = normal, R = rotate 90°, I = 180°, B = 270°
-    // Barcode defaults
-    this.barcodeModuleWidth = 2;
+    // Barcode defaults, sized for 8 dots/mm
+    this.barcodeModuleWidth = this.scaleDefault(2);
     this.barcodeRatio = 3;
-    this.barcodeHeight = 50;
+    this.barcodeHeight = this.scaleDefault(50);
     // Temporary storage for the next barcode command
     this.pendingBarcode = null;
+    // Symbol selected with ^GS for the next field
+    this.pendingSymbol = null;
     // Current label home offset
     this.labelHome = { x: 0, y: 0 };
 
+    // Print quantity (^PQ): total labels, labels between pauses,
+    // replicates of each serial number and whether pauses are skipped
+    this.quantity = {
+      total: 1,
+      pauseEvery: 0,
+      replicates: 0,
+      overridePause: false
+    };
+
+    // Escape character for hexadecimal field data (^FH), or null
+    // when the current field does not use escapes
+    this.hexIndicator = null;
+
+    // Number and prompt of the current format field (^FN), and whether
+    // the field has received data yet
+    this.fieldNumber = null;
+    this.fieldPrompt = null;
+    this.fieldHasData = false;
+
     // Indicates whether the next drawable element should be printed in reverse (inverted).
     this.reverseNext = false;
 
-    // Field block formatting for multi‑line text (set by ^FB).  When non‑null
-    // this object stores width, lines, lineSpacing, alignment and indent.
+    // Block formatting for multi‑line text (set by ^FB or ^TB).  When
+    // non‑null this object stores the block type and its settings.
     this.fieldBlock = null;
 
     // Default field orientation for subsequent fields (^FW).  When set,
     // overrides the orientation property of fonts and barcodes.
     this.fieldOrientation = null;
+  }
 
-    // Graphics store keyed by download name (e.g. "R:SAMPLE.PNG").  Each
-    // entry contains an object with data Buffer and optional metadata such
-    // as width and height.  Populated by ~DG, ~DY and similar commands.
-    this.graphics = {};
+  /**
+   * Converts a default given in dots at 203 dpi into dots at the
+   * printer resolution, so that defaults keep their physical size.
+   * @param {number} dots Default value at 203 dpi
+   * @returns {number} Value in dots for this printer (at least 1)
+   */
+  scaleDefault(dots: number): number {
+    return Math.max(1, Math.round((dots * this.dpi) / REFERENCE_DPI));
+  }
+
+  /**
+   * Selects the unit of measure for subsequent parameters (^MU).  The
+   * optional base and desired resolutions scale formats written for
+   * one printhead to another, e.g. ^MUd,200,300 enlarges every dot
+   * value by 1.5.  Matching resolutions turn the conversion off.
+   *
+   * @param {string} units 'D' (dots), 'I' (inches) or 'M' (millimetres)
+   * @param {number} [baseDpi] Resolution the format was designed for
+   * @param {number} [desiredDpi] Resolution to convert the format to
+   */
+  setUnits(units: string, baseDpi?: number, desiredDpi?: number) {
+    const u = (units || '').toUpperCase();
+    if (u === 'D' || u === 'I' || u === 'M') {
+      this.units = u;
+    }
+    if (baseDpi && desiredDpi && baseDpi > 0 && desiredDpi > 0) {
+      this.unitConversion = desiredDpi / baseDpi;
+    }
+  }
+
+  /**
+   * Converts a measurement in the current unit of measure into dots.
+   * Values that are not numbers are returned unchanged so callers can
+   * keep their own fallbacks for missing parameters.
+   *
+   * @param {number} value Measurement in the unit selected by ^MU
+   * @returns {number} Measurement in whole dots
+   */
+  toDots(value: number): number {
+    if (typeof value !== 'number' || isNaN(value)) {
+      return value;
+    }
+    if (this.units === 'I') {
+      return Math.round(value * this.dpi);
+    }
+    if (this.units === 'M') {
+      return Math.round((value * this.dpi) / 25.4);
+    }
+    // Dot parameters are whole numbers; like the printer, drop fractions
+    return Math.round(Math.trunc(value) * this.unitConversion);
+  }
+
+  /**
+   * Selects the character set for field data (^CI).  The optional
+   * pairs remap input bytes: each pair names the character code to
+   * print followed by the input byte that should print it.
+   *
+   * @param {number} charset ^CI character set number
+   * @param {number[]} [pairs] Alternating output and input codes
+   */
+  setCharset(charset: number, pairs: number[] = []) {
+    if (typeof charset === 'number' && !isNaN(charset) && charset >= 0) {
+      this.charset = charset;
+    }
+    const remap = new Map<number, number>();
+    for (let i = 0; i + 1 < pairs.length; i += 2) {
+      const output = pairs[i];
+      const input = pairs[i + 1];
+      if (output >= 0 && output <= 255 && input >= 0 && input <= 255) {
+        remap.set(input, output);
+      }
+    }
+    this.charRemap = remap.size > 0 ? remap : null;
+  }
+
+  /**
+   * Enables hexadecimal escapes for the current field (^FH).
+   * @param {string} [indicator='_'] Character introducing an escape
+   */
+  setHexIndicator(indicator?: string) {
+    this.hexIndicator = indicator || '_';
+  }
+
+  /** Clears the ^FH escape character at the end of a field. */
+  clearHexIndicator() {
+    this.hexIndicator = null;
+  }
+
+  /**
+   * Converts raw ^FD data into text, resolving ^FH escapes and the
+   * active ^CI character set.
+   * @param {string} data Field data as it appears in the command
+   * @returns {string} Decoded text
+   */
+  decodeFieldData(data: string): string {
+    return decodeFieldData(data, {
+      hexIndicator: this.hexIndicator,
+      charset: this.charset,
+      remap: this.charRemap
+    });
   }
 
   /**
@@ -77,7 +327,12 @@ class VirtualPrinter {
    * @param {boolean} [bottom=false] Whether the Y coordinate is relative to the bottom
    * @param {string} [originType='top-left'] Either 'top-left' or 'baseline'
    */
-  setNextPosition(x, y, bottom = false, originType = 'top-left') {
+  setNextPosition(
+    x: number,
+    y: number,
+    bottom = false,
+    originType: OriginType = 'top-left'
+  ) {
     this.nextPosition = {
       x: x,
       y: y,
@@ -105,8 +360,29 @@ class VirtualPrinter {
    * @param {string} orientation One of 'N', 'R', 'I', 'B'
    * @param {number} height Height in dots
    * @param {number} width Width in dots (optional)
+   * @param {string} [file] Font file name for ^A@.  When omitted the
+   *   file stays selected as long as the designator does not change.
    */
-  setFont(fontName, orientation, height, width = 0) {
+  setFont(
+    fontName: string,
+    orientation: Orientation,
+    height?: number,
+    width: number = 0,
+    file?: string
+  ) {
+    // Resident bitmap fonts default to their native matrix for this
+    // printhead when no height is given.
+    if (!height || !(height > 0)) {
+      const matrix = getBitmapFontMatrix(fontName, this.dpi);
+      if (matrix) {
+        height = matrix.height;
+      }
+    }
+    if (file !== undefined) {
+      this.fontFile = file;
+    } else if (fontName !== this.fontName) {
+      this.fontFile = null;
+    }
     this.fontName = fontName;
     // If a default field orientation has been set (^FW), merge it with
     // the supplied orientation.  Otherwise use the provided value.
@@ -128,17 +404,61 @@ class VirtualPrinter {
    * object can safely be mutated by callers without affecting the
    * underlying state.
    */
-  getFont() {
+  getFont(): FontSettings {
     return {
       name: this.fontName,
       // If a default field orientation is set (^FW), propagate it to the
       // font orientation when queried.
       orientation: this.fieldOrientation || this.orientation,
       height: this.fontHeight,
-      width: this.fontWidth
+      width: this.fontWidth,
+      file: this.fontFile
     };
   }
 
+  /**
+   * Assigns a font designator to a font file (^CW).  Text in that
+   * designator then prints in the font file.
+   * @param {string} designator Single character font designator
+   * @param {string} name Font file name in "d:o.x" form
+   */
+  setFontAlias(designator: string, name: string) {
+    if (designator && name) {
+      this.fontAliases[designator.toUpperCase()] = name;
+    }
+  }
+
+  /**
+   * Stores a downloaded font under its name.
+   * @param {string} key The font name (device and filename)
+   * @param {DownloadedFont} font Font description for resolveFont()
+   */
+  saveFont(key: string, font: DownloadedFont) {
+    if (key && font) {
+      this.fonts[key] = font;
+    }
+  }
+
+  /**
+   * Returns what a font configuration prints in when it is not a
+   * resident font: the font downloaded under the file name selected
+   * with ^A@ or assigned with ^CW, or just the file name so that it
+   * can be looked up among the registered fonts.
+   * @param {{name: string, file?: string|null}} font Font from getFont()
+   * @returns {string|DownloadedFont|undefined} Font file name or
+   *   downloaded font
+   */
+  getFontSource(font: {
+    name: string;
+    file?: string | null;
+  }): string | DownloadedFont | undefined {
+    const file = font.file || this.fontAliases[String(font.name).toUpperCase()];
+    if (!file) {
+      return undefined;
+    }
+    return this.fonts[file] || file;
+  }
+
   /**
    * Adjusts the barcode defaults.  The module width and ratio
    * determine the thickness of narrow and wide bars in most linear
@@ -148,7 +468,7 @@ class VirtualPrinter {
    * @param {number} ratio Ratio between wide bar and narrow bar
    * @param {number} height Height of the barcode in dots
    */
-  setBarcodeDefaults(moduleWidth, ratio, height) {
+  setBarcodeDefaults(moduleWidth?: number, ratio?: number, height?: number) {
     if (typeof moduleWidth === 'number' && moduleWidth > 0) {
       this.barcodeModuleWidth = moduleWidth;
     }
@@ -169,13 +489,23 @@ class VirtualPrinter {
   }
 
   /**
-   * Retrieves and clears the reverse flag for the next element.
+   * Retrieves and clears the reverse flag for the next element.  While
+   * label reverse (^LR) is on every element is reversed.
    * @returns {boolean}
    */
-  consumeReverseNext() {
+  consumeReverseNext(): boolean {
     const flag = this.reverseNext;
     this.reverseNext = false;
-    return flag;
+    return flag || this.labelReverse;
+  }
+
+  /**
+   * Turns label reverse (^LR) on or off.  Every element created while
+   * it is on inverts whatever lies underneath it.
+   * @param {boolean} enabled Whether label reverse is on
+   */
+  setLabelReverse(enabled: boolean) {
+    this.labelReverse = !!enabled;
   }
 
   /**
@@ -185,9 +515,10 @@ class VirtualPrinter {
    * a ^FD that provides the encoded data.  This method captures the
    * first part.
    *
-   * @param {object} barcodeSpec An object containing type, height, orientation and other options
+   * @param {BarcodeSpec} barcodeSpec Type, height, orientation and other
+   *   options of the barcode
    */
-  setPendingBarcode(barcodeSpec) {
+  setPendingBarcode(barcodeSpec: BarcodeSpec) {
     this.pendingBarcode = barcodeSpec;
   }
 
@@ -198,6 +529,23 @@ class VirtualPrinter {
     this.pendingBarcode = null;
   }
 
+  /**
+   * Stores the settings of a graphic symbol (^GS).  The symbol itself
+   * is named by the data of the following ^FD.
+   *
+   * @param {SymbolSpec} symbolSpec
+   */
+  setPendingSymbol(symbolSpec: SymbolSpec) {
+    this.pendingSymbol = symbolSpec;
+  }
+
+  /**
+   * Clears any previously stored symbol settings.
+   */
+  clearPendingSymbol() {
+    this.pendingSymbol = null;
+  }
+
   /**
    * Sets the label home position.  In ZPL this is done with ^LH and
    * offsets subsequent ^FO commands by the given amount.
@@ -205,29 +553,53 @@ class VirtualPrinter {
    * @param {number} x Home X offset in dots
    * @param {number} y Home Y offset in dots
    */
-  setLabelHome(x, y) {
+  setLabelHome(x: number, y: number) {
     this.labelHome = { x: x || 0, y: y || 0 };
   }
 
   /**
    * Defines the formatting for the next text field block.  See ^FB in ZPL.
    * @param {number} width Maximum width of the block in dots
-   * @param {number} lines Maximum number of lines (0 for unlimited)
+   * @param {number} lines Number of lines in the block (0 for the default of one)
    * @param {number} lineSpacing Additional spacing between lines in dots
    * @param {string} align One of 'L', 'C', 'R', 'J'
    * @param {number} indent Hanging indent in dots
    */
-  setFieldBlock(width, lines, lineSpacing, align, indent) {
+  setFieldBlock(
+    width: number,
+    lines: number,
+    lineSpacing: number,
+    align: string,
+    indent: number
+  ) {
     this.fieldBlock = {
+      type: 'FB',
       width: width || 0,
       lines: lines || 0,
       lineSpacing: lineSpacing || 0,
-      align: (align || 'L').toUpperCase(),
+      align: (align || 'L').toUpperCase() as FieldBlock['align'],
       indent: indent || 0
     };
   }
 
-  /** Clears the currently defined field block formatting. */
+  /**
+   * Defines a text block for the next field.  See ^TB in ZPL.  Text
+   * wraps within the width and lines beyond the height are dropped.
+   * @param {string} orientation One of 'N','R','I','B', or empty to keep the font orientation
+   * @param {number} width Width of the block in dots
+   * @param {number} height Height of the block in dots
+   */
+  setTextBlock(orientation: string, width: number, height: number) {
+    const o = (orientation || '').toUpperCase();
+    this.fieldBlock = {
+      type: 'TB',
+      orientation: ['N', 'R', 'I', 'B'].includes(o) ? (o as Orientation) : null,
+      width: width || 0,
+      height: height || 0
+    };
+  }
+
+  /** Clears the currently defined field or text block formatting. */
   clearFieldBlock() {
     this.fieldBlock = null;
   }
@@ -237,7 +609,7 @@ class VirtualPrinter {
    * value persists until reset or overridden by another ^FW command.
    * @param {string} orientation One of 'N','R','I','B'
    */
-  setFieldOrientation(orientation) {
+  setFieldOrientation(orientation: string) {
     const o = (orientation || '').toUpperCase();
     if (o === 'N' || o === 'R' || o === 'I' || o === 'B') {
       this.fieldOrientation = o;
@@ -250,18 +622,140 @@ class VirtualPrinter {
    * containing at least a Buffer under the 'data' property and may
    * include width, height and type (e.g. 'png').
    * @param {string} key The download name (device and filename)
-   * @param {object} graphic Graphic information with data Buffer and metadata
+   * @param {Graphic} graphic Graphic information with data Buffer and metadata
    */
-  saveGraphic(key, graphic) {
+  saveGraphic(key: string, graphic: Graphic) {
     if (key) {
       this.graphics[key] = graphic;
     }
   }
 
+  /**
+   * Sets the print width (^PW) in dots.  Non‑positive values are
+   * ignored so that a malformed command does not clear the setting.
+   * @param {number} width Print width in dots
+   */
+  setPrintWidth(width: number) {
+    if (typeof width === 'number' && !isNaN(width) && width > 0) {
+      this.printWidth = width;
+    }
+  }
+
+  /**
+   * Sets the label length (^LL) in dots.  Non‑positive values are
+   * ignored.
+   * @param {number} length Label length in dots
+   */
+  setLabelLength(length: number) {
+    if (typeof length === 'number' && !isNaN(length) && length > 0) {
+      this.labelLength = length;
+    }
+  }
+
+  /**
+   * Sets the print orientation (^PO).  'I' prints the whole label
+   * upside down; anything else is normal orientation.
+   * @param {string} orientation 'N' or 'I'
+   */
+  setPrintOrientation(orientation: string) {
+    this.printOrientation = /^I/i.test(orientation || '') ? 'I' : 'N';
+  }
+
+  /**
+   * Turns the mirror image of the whole label (^PM) on or off.
+   * @param {boolean} enabled Whether the label is mirrored
+   */
+  setMirror(enabled: boolean) {
+    this.mirror = !!enabled;
+  }
+
+  /**
+   * Sets the label shift (^LS): every field moves left by this many
+   * dots, or right for a negative value.  Limited to ±9999 dots.
+   * @param {number} dots Shift in dots
+   */
+  setLabelShift(dots: number) {
+    if (typeof dots === 'number' && !isNaN(dots)) {
+      this.labelShift = Math.max(-9999, Math.min(9999, Math.round(dots)));
+    }
+  }
+
+  /**
+   * Sets the label top (^LT): the whole format moves down by this many
+   * dot rows, or up for a negative value.  Limited to ±120 rows.
+   * @param {number} dots Vertical offset in dots
+   */
+  setLabelTop(dots: number) {
+    if (typeof dots === 'number' && !isNaN(dots)) {
+      this.labelTop = Math.max(-120, Math.min(120, Math.round(dots)));
+    }
+  }
+
   /** Retrieves a graphic previously saved with saveGraphic. */
-  getGraphic(key) {
+  getGraphic(key: string): Graphic | undefined {
     return this.graphics[key];
   }
+
+  /**
+   * Sets the print quantity (^PQ).  Missing or invalid values keep
+   * their defaults: one label, no pauses and no replicates.
+   * @param {number} total Number of labels to print
+   * @param {number} pauseEvery Labels printed between pauses (0 for none)
+   * @param {number} replicates Extra copies of each serial number
+   * @param {boolean} overridePause Whether to print without pausing
+   */
+  setQuantity(
+    total: number,
+    pauseEvery: number,
+    replicates: number,
+    overridePause: boolean
+  ) {
+    this.quantity = {
+      total: total > 0 ? total : 1,
+      pauseEvery: pauseEvery > 0 ? pauseEvery : 0,
+      replicates: replicates > 0 ? replicates : 0,
+      overridePause: !!overridePause
+    };
+  }
+
+  /**
+   * Stores a format (^DF) as the list of commands that follow the ^DF
+   * command up to the end of the label.
+   * @param {string} key The format name (device and filename)
+   * @param {ZplCommand[]} commands ZPL commands of the format
+   */
+  saveFormat(key: string, commands: ZplCommand[]) {
+    if (key) {
+      this.formats[key] = commands;
+    }
+  }
+
+  /** Retrieves a format previously saved with saveFormat. */
+  getFormat(key: string): ZplCommand[] | undefined {
+    return this.formats[key];
+  }
+
+  /**
+   * Marks the current field as a numbered format field (^FN).
+   * @param {number} number Field number
+   * @param {string} [prompt] Prompt text shown for the field
+   */
+  setFieldNumber(number: number, prompt?: string) {
+    this.fieldNumber = number;
+    this.fieldPrompt = prompt || null;
+  }
+
+  /** Records that the current field has received its data (^FD). */
+  markFieldData() {
+    this.fieldHasData = true;
+  }
+
+  /** Clears the field number at the end of a field. */
+  clearFieldNumber() {
+    this.fieldNumber = null;
+    this.fieldPrompt = null;
+    this.fieldHasData = false;
+  }
 }
 
 export default VirtualPrinter;
\ No newline at end of file
@@ -1,38 +1,319 @@
-import VirtualPrinter from "./VirtualPrinter";
+import type {
+  AnalyzeOptions,
+  BarcodeElement,
+  CommandSource,
+  Diagnostic,
+  DiagnosticCode,
+  ElementSource,
+  Label,
+  Serialization,
+  SourceRange,
+  TextElement,
+  ZplCommand,
+  Orientation,
+  ZplElement,
+} from "./types.js";
+import { decodeBitmapFont, loadDownloadedFont, resolveFont } from "./font.js";
+
+import VirtualPrinter, { type BarcodeSpec } from "./VirtualPrinter.js";
+import { decodeGrfData } from "./grf.js";
+import { report } from "./diagnostics.js";
+import { serializeField } from "./serial.js";
+
+// bwip-js encoders of the ^BR symbology types 1 to 12, with the
+// settings that tell them apart.  The composites fall back to their
+// linear symbology when the data has no "|".  Types 11 and 12 are both
+// UCC/EAN-128 composites: 11 takes a CC-A or CC-B component, whichever
+// the data fits, and 12 always a CC-C component.
+const DATABAR_TYPES = [
+  { codeType: "databaromni" },
+  { codeType: "databartruncated" },
+  { codeType: "databarstacked" },
+  { codeType: "databarstackedomni" },
+  { codeType: "databarlimited" },
+  { codeType: "databarexpanded" },
+  { codeType: "upcacomposite" },
+  { codeType: "upcecomposite" },
+  { codeType: "ean13composite" },
+  { codeType: "ean8composite" },
+  { codeType: "gs1-128composite" },
+  { codeType: "gs1-128composite", options: { ccversion: "c" } },
+];
+
+// Data columns and rows of the MicroPDF417 symbol sizes selected by the
+// ^BF modes 0 to 33
+const MICROPDF417_SIZES = [
+  [1, 11],
+  [1, 14],
+  [1, 17],
+  [1, 20],
+  [1, 24],
+  [1, 28],
+  [2, 8],
+  [2, 11],
+  [2, 14],
+  [2, 17],
+  [2, 20],
+  [2, 23],
+  [2, 26],
+  [3, 6],
+  [3, 8],
+  [3, 10],
+  [3, 12],
+  [3, 15],
+  [3, 20],
+  [3, 26],
+  [3, 32],
+  [3, 38],
+  [3, 44],
+  [4, 6],
+  [4, 8],
+  [4, 10],
+  [4, 12],
+  [4, 15],
+  [4, 20],
+  [4, 26],
+  [4, 32],
+  [4, 38],
+  [4, 44],
+  [4, 4],
+];
+
+// Commands that are accepted without changing the printed image:
+// comments and printer, media and communication settings
+const SETTINGS_COMMANDS = new Set(
+  (
+    "FX CC CD CM CT HB HD HH HI HM HQ HS HU HZ JA JB JC JD JE JG JJ JL " +
+    "JR JS JT JU JW JX JZ KL KN KP MD MF MM MN MP MT MW NC NI NN NP NS " +
+    "NT PF PH PP PR PS SC SD SL SO SQ SS ST SZ TA WD"
+  ).split(" ")
+);
+
+// Commands that set up a field; together with the command creating an
+// element they make up the element's source
+const FIELD_COMMANDS = /^(?:F[OTBRHN]|TB|GS|A.|B.)$/;
+
+/**
+ * Returns the number of UTF‑8 bytes of a UTF‑16 code unit.  A
+ * surrogate pair is a single character of four bytes, all counted for
+ * its first half.
+ *
+ * @param {number} code UTF‑16 code unit
+ * @returns {number} Bytes of the code unit
+ */
+function utf8Length(code: number): number {
+  if (code < 0x80) {
+    return 1;
+  }
+  if (code < 0x800) {
+    return 2;
+  }
+  if (code >= 0xd800 && code < 0xdc00) {
+    return 4;
+  }
+  return code >= 0xdc00 && code < 0xe000 ? 0 : 3;
+}
 
 /**
  * Splits a raw ZPL string into individual commands.  Commands are
  * delimited by either a caret (^) or tilde (~) at the start of each
  * command.  Vertical whitespace is stripped out to mirror the
- * behaviour of Zebra printers, which ignore newlines.
+ * behaviour of Zebra printers, which ignore newlines.  Every command
+ * records where it lies in `zpl`: its character `offset` and its
+ * `range`, from the ^ or ~ to just after its last character, as
+ * character and UTF‑8 byte offsets and 1‑based lines and columns.
  *
  * @param {string} zpl ZPL data containing zero or more commands
- * @returns {string[]} Array of commands including their leading ^ or ~
+ * @returns {ZplCommand[]} Commands including their leading ^ or ~
  */
-export function splitZplCommands(zpl) {
+export function tokenizeZpl(zpl: string): ZplCommand[] {
   if (!zpl || typeof zpl !== "string") {
     return [];
   }
-  // remove vertical whitespace characters
-  const clean = zpl.replace(/[\n\v\f\r]+/g, "");
-  const commands = [];
+  const commands: ZplCommand[] = [];
   let buffer = "";
-  for (let i = 0; i < clean.length; i++) {
-    const c = clean[i];
-    if (c === "^" || c === "~") {
-      if (buffer.length > 0) {
-        commands.push(buffer);
-        buffer = "";
+  // Positions of the first character of the command being read and
+  // of the character after its last one
+  let start = { offset: 0, byteOffset: 0, line: 1, column: 1 };
+  let end = start;
+  // Position of the next character
+  let byteOffset = 0;
+  let line = 1;
+  let column = 1;
+  const flush = () => {
+    commands.push({
+      text: buffer,
+      offset: start.offset,
+      range: { start, end },
+    });
+    buffer = "";
+  };
+  for (let i = 0; i < zpl.length; i++) {
+    const c = zpl[i];
+    // skip vertical whitespace characters
+    const skipped = /[\n\v\f\r]/.test(c);
+    if (!skipped) {
+      if ((c === "^" || c === "~") && buffer.length > 0) {
+        flush();
       }
+      if (buffer.length === 0) {
+        start = { offset: i, byteOffset, line, column };
+      }
+      buffer += c;
+    }
+    byteOffset += utf8Length(zpl.charCodeAt(i));
+    if (c === "\n" || (c === "\r" && zpl[i + 1] !== "\n")) {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    if (!skipped) {
+      end = { offset: i + 1, byteOffset, line, column };
     }
-    buffer += c;
   }
   if (buffer.length > 0) {
-    commands.push(buffer);
+    flush();
   }
   return commands;
 }
 
+/**
+ * Splits a raw ZPL string into individual commands, as tokenizeZpl()
+ * does, without their offsets.
+ *
+ * @param {string} zpl ZPL data containing zero or more commands
+ * @returns {string[]} Array of commands including their leading ^ or ~
+ */
+export function splitZplCommands(zpl: string): string[] {
+  return tokenizeZpl(zpl).map((command) => command.text);
+}
+
+/**
+ * Describes where an element comes from: `source` is the command that
+ * created it and `commands` are the commands of its field.  The range
+ * runs from the first to the last of those that are part of the
+ * document.  A font selected before the field began is listed among
+ * the commands but left out of the range, which would otherwise take
+ * in the fields in between.  Commands are listed in document order,
+ * followed by those that are not part of the document.
+ *
+ * @param {CommandSource} source Command creating the element
+ * @param {ZplCommand[]} commands Commands of the field
+ * @param {ZplCommand|null} font Font command selected before the field
+ * @returns {ElementSource} Source of the element
+ */
+function elementSource(
+  source: CommandSource,
+  commands: ZplCommand[],
+  font: ZplCommand | null
+): ElementSource {
+  const ranges: SourceRange[] = [];
+  for (const command of commands) {
+    if (command.range) {
+      ranges.push(command.range);
+    }
+  }
+  ranges.sort((a, b) => a.start.offset - b.start.offset);
+  const position = (c: ZplCommand) =>
+    c.range ? c.range.start.offset : Number.MAX_SAFE_INTEGER;
+  const listed =
+    font && !commands.includes(font) ? [font, ...commands] : commands;
+  const ordered = [...listed].sort((a, b) => position(a) - position(b));
+  return {
+    ...source,
+    range:
+      ranges.length > 0
+        ? { start: ranges[0].start, end: ranges[ranges.length - 1].end }
+        : null,
+    commands: ordered.map((c) => ({ command: c.text.trim(), range: c.range })),
+  };
+}
+
+/**
+ * Normalises a stored graphic name the way the printer does: the
+ * device defaults to R: and the extension to the one implied by the
+ * command, so that ~DGLOGO and ^XGR:LOGO.GRF refer to the same object.
+ *
+ * @param {string} name Name as given in the command
+ * @param {string} extension Default extension without the dot
+ * @returns {string} Name in "d:o.x" form
+ */
+function graphicName(name: string, extension: string): string {
+  let key = name.trim().toUpperCase();
+  if (!/^[A-Z]:/.test(key)) {
+    key = `R:${key}`;
+  }
+  if (!/\.[A-Z0-9]+$/.test(key)) {
+    key = `${key}.${extension}`;
+  }
+  return key;
+}
+
+/**
+ * Looks up the data for a format field, first by its number and then
+ * by its ^FN prompt text.
+ *
+ * @param {object} values Field data keyed by number or prompt
+ * @param {number} number Field number
+ * @param {string|null} prompt Prompt text of the field
+ * @returns {string|number|undefined} The data, or undefined when none
+ *   was supplied
+ */
+function fieldValue(
+  values: Record<string, string | number>,
+  number: number,
+  prompt: string | null
+): string | number | undefined {
+  if (values[number] !== undefined) {
+    return values[number];
+  }
+  return prompt ? values[prompt] : undefined;
+}
+
+/** A stored format recalled with ^XF and the data for its fields. */
+interface FormatRecall {
+  name: string;
+  values: Record<string, string | number>;
+  source: CommandSource | null;
+}
+
+// Most copies of a label returned with options.expandQuantity
+const MAX_COPIES = 10000;
+
+/**
+ * Expands a label into one label per printed copy according to its
+ * ^PQ settings.  A run has `total` labels, and every serial number is
+ * printed `replicates + 1` times within it, so ^PQ50,0,1 prints 25
+ * serial numbers twice each.  Serialized fields (^SN, ^SF) advance
+ * once per serial number and `pause` marks the copies after which the
+ * printer pauses.  No more than MAX_COPIES copies are returned.
+ */
+function expandCopies(label: Label): Label[] {
+  const { total, pauseEvery, replicates, overridePause } = label.quantity;
+  const perSerial = replicates + 1;
+  const count = Math.min(total, MAX_COPIES);
+  const copies: Label[] = [];
+  for (let n = 0; n < count; n++) {
+    const step = Math.floor(n / perSerial);
+    copies.push({
+      ...label,
+      elements: label.elements.map((e) =>
+        "serial" in e && e.serial
+          ? { ...e, text: serializeField(e.text, e.serial, step) }
+          : { ...e }
+      ),
+      copy: n + 1,
+      pause:
+        !overridePause &&
+        pauseEvery > 0 &&
+        (n + 1) % pauseEvery === 0 &&
+        n + 1 < total,
+    });
+  }
+  return copies;
+}
+
 /**
  * Parses a ZPL string and produces a list of label descriptions.  Each
  * label contains an array of element definitions that can later be
@@ -41,52 +322,223 @@ export function splitZplCommands(zpl) {
  * scenarios such as drawing text, barcodes and boxes.  Unrecognised
  * commands are ignored.
  *
+ * Every element records in `source` where it comes from: the
+ * `command` that created it (e.g. ^FD or ^GB), its character `offset`
+ * in `zplString` and the index of its `label`, along with every
+ * command of its field in `commands` (the ^FO, ^A or ^B and ^FD, say)
+ * and the `range` of the document they cover.  Ranges give character
+ * and UTF‑8 byte offsets and 1‑based lines and columns, see
+ * tokenizeZpl().  Data recalled through options.recall has no place
+ * in the document and no range.  Unsupported commands,
+ * recalls of missing formats or graphics and the like are reported as
+ * diagnostics (see diagnostics.ts) to the `options.diagnostics` array,
+ * and `options.strict` throws a ZplDiagnosticError for the first error.
+ *
+ * Besides its elements every label records the print width (^PW) and
+ * label length (^LL) in dots that were in effect when it ended.  Both
+ * are null when the document never sets them.  Labels also carry the
+ * printer resolution they were interpreted for.
+ *
+ * `options.dpi` sets the resolution of the target printer (default
+ * 203).  It decides the native size of the resident fonts and the dot
+ * size of defaults such as the barcode height, and is used to convert
+ * measurements given in inches or millimetres (^MU).  Element
+ * coordinates and sizes are always emitted in dots.
+ *
+ * Formats stored with ^DF do not produce a label themselves.  A label
+ * that recalls one with ^XF is expanded into the stored commands, with
+ * the data given by its ^FN fields substituted for the fields of the
+ * same number in the format.  `options.recall` recalls a stored format
+ * once more after the document: `recall.name` selects the format
+ * (default: the last one defined) and `recall.values` supplies the
+ * field data, keyed by field number or by ^FN prompt text.
+ *
+ * The whole-label settings are recorded as `printOrientation` ('N' or
+ * 'I' for ^POI), `mirror` (^PMY), `labelShift` (^LS, dots to the left)
+ * and `labelTop` (^LT, dots down); the renderer applies them to the
+ * finished label.
+ *
+ * Each label records its ^PQ settings as `quantity` ({total,
+ * pauseEvery, replicates, overridePause}).  With
+ * `options.expandQuantity` a label is instead returned once per
+ * printed copy, with `copy` (1‑based), `pause` and the data of ^SN and
+ * ^SF serialized fields advanced for that copy.  Quantities above
+ * 10,000 are cut short with a 'quantity-limit' warning.
+ *
  * @param {string} zplString ZPL document consisting of one or more labels
- * @returns {Array<{elements: any[]}>} List of label objects with elements
+ * @param {AnalyzeOptions} [options] Printer settings
+ * @returns {Label[]} List of label objects with elements
  */
-export function analyze(zplString) {
-  const commands = splitZplCommands(zplString);
-  const printer = new VirtualPrinter();
-  const labels = [];
-  let currentElements = [];
+export function analyze(
+  zplString: string,
+  options: AnalyzeOptions = {}
+): Label[] {
+  const commands = tokenizeZpl(zplString);
+  const printer = new VirtualPrinter(options.dpi);
+  const labels: Label[] = [];
+  let currentElements: ZplElement[] = [];
+  // Parses a measurement parameter and converts it from the unit of
+  // measure selected with ^MU into dots
+  const toDots = (value: string) => printer.toDots(parseFloat(value));
+  // Format being stored by ^DF, recalled by ^XF in the current label,
+  // and the field data of the recall while it is being expanded
+  let recording: { name: string; commands: ZplCommand[] } | null = null;
+  let recall: FormatRecall | null = null;
+  let expanding: FormatRecall | null = null;
+  // Names of the formats expanded into the current label, to stop a
+  // format that recalls itself
+  let expandedFormats = new Set<string>();
+  // Last element created for the current field, and a serialization
+  // (^SN, ^SF) still waiting for the field's data
+  let fieldElement: TextElement | BarcodeElement | null = null;
+  let pendingSerial: Serialization | null = null;
+  // Field data seeded from options.recall, keyed by command index
+  const seededValues = new Map<number, Record<string, string | number>>();
+  // Command being interpreted, which is where the elements it creates
+  // and the problems found with it come from
+  let source: CommandSource | null = null;
+  // Commands of the field being defined and the command that selected
+  // the current font, which the field's elements are created from
+  let fieldCommands: ZplCommand[] = [];
+  let fontCommand: ZplCommand | null = null;
+  // The ^PQ command that set the print quantity
+  let quantitySource: CommandSource | null = null;
+  // Number of labels (^XA...^XZ) finished so far, not counting the
+  // copies of expandQuantity
+  let labelCount = 0;
+  const diagnose = (
+    severity: Diagnostic["severity"],
+    code: DiagnosticCode,
+    message: string
+  ) =>
+    report(options, source, severity, code, message);
+  // Stores a TrueType font downloaded by the label under its name
+  const saveDownloadedFont = (name: string, data: Buffer) => {
+    try {
+      const family = loadDownloadedFont(data);
+      printer.saveFont(name, { type: "truetype", family });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : err;
+      const message = `Cannot load font ${name}: ${reason}`;
+      diagnose("error", "invalid-font", message);
+    }
+  };
+  if (options.recall) {
+    let name = options.recall.name;
+    if (!name) {
+      const stored = commands.filter((c) => /^\^DF/i.test(c.text.trim()));
+      if (stored.length === 0) {
+        throw new Error("No stored format (^DF) found to recall");
+      }
+      name = stored[stored.length - 1].text.trim().substring(3);
+    }
+    commands.push(
+      { text: "^XA", offset: null, range: null },
+      { text: `^XF${name}`, offset: null, range: null },
+      { text: "^XZ", offset: null, range: null }
+    );
+    seededValues.set(commands.length - 2, options.recall.values || {});
+  }
 
   const pushLabel = () => {
-    if (currentElements.length > 0) {
-      // copy the array to avoid accidental mutation
-      labels.push({ elements: currentElements.slice() });
+    // copy the array to avoid accidental mutation
+    const label = {
+      elements: currentElements.slice(),
+      printWidth: printer.printWidth,
+      labelLength: printer.labelLength,
+      dpi: printer.dpi,
+      printOrientation: printer.printOrientation,
+      mirror: printer.mirror,
+      labelShift: printer.labelShift,
+      labelTop: printer.labelTop,
+      quantity: { ...printer.quantity },
+    };
+    if (options.expandQuantity) {
+      if (label.quantity.total > MAX_COPIES) {
+        const { total } = label.quantity;
+        const message = `Only the first ${MAX_COPIES} of ${total} copies are returned`;
+        report(options, quantitySource, "warning", "quantity-limit", message);
+      }
+      labels.push(...expandCopies(label));
     } else {
-      labels.push({ elements: [] });
+      labels.push(label);
     }
+    labelCount++;
     currentElements = [];
+    fieldCommands = [];
+    expandedFormats = new Set();
     printer.clearPendingBarcode();
+    printer.clearPendingSymbol();
     printer.clearNextPosition();
   };
 
-  for (let rawCmd of commands) {
-    const cmd = rawCmd.trim();
+  for (let i = 0; i < commands.length; i++) {
+    const cmd = commands[i].text.trim();
     if (cmd.length < 2) {
       continue;
     }
+    source = {
+      command: cmd,
+      offset: commands[i].offset,
+      label: labelCount,
+    };
+    // Everything between ^DF and ^XZ is stored rather than printed
+    if (recording) {
+      if (/^\^XZ/i.test(cmd)) {
+        printer.saveFormat(recording.name, recording.commands);
+        recording = null;
+        currentElements = [];
+      } else {
+        recording.commands.push(commands[i]);
+      }
+      continue;
+    }
     // Handle label start (^XA) and end (^XZ)
     if (/^\^XA/i.test(cmd)) {
       // start new label; reset state
       printer.reset();
       currentElements = [];
+      recall = null;
+      expanding = null;
+      expandedFormats = new Set<string>();
+      fieldElement = null;
+      pendingSerial = null;
+      fieldCommands = [];
+      fontCommand = null;
       continue;
     }
     if (/^\^XZ/i.test(cmd)) {
+      const format = recall && printer.getFormat(recall.name);
+      if (recall && format && expandedFormats.has(recall.name)) {
+        const message = `Format ${recall.name} recalls itself`;
+        report(options, recall.source, "error", "recursive-format", message);
+      } else if (recall && format) {
+        // Expand the recalled format in place, followed by a new end
+        // of label; its fields pick up the data collected in recall
+        commands.splice(i + 1, 0, ...format, commands[i]);
+        expandedFormats.add(recall.name);
+        expanding = recall;
+        recall = null;
+        continue;
+      }
+      if (recall && !format) {
+        const message = `No format ${recall.name}`;
+        report(options, recall.source, "error", "missing-format", message);
+      }
       pushLabel();
+      expanding = null;
       continue;
     }
     // Determine the command prefix (two characters after ^ or ~)
     const prefix = cmd.substring(1, 3).toUpperCase();
+    const created = currentElements.length;
     switch (prefix) {
       case "FO": {
         // Field Origin – origin at top‑left of field
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const x = parseInt(parts[0], 10) || 0;
-        const y = parseInt(parts[1], 10) || 0;
+        const x = toDots(parts[0]) || 0;
+        const y = toDots(parts[1]) || 0;
         const bottom =
           parts.length > 2 ? parts[2].trim().toUpperCase() === "B" : false;
         printer.setNextPosition(
@@ -101,8 +553,8 @@ export function analyze(zplString) {
         // Field Text – origin at baseline of text
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const x = parseInt(parts[0], 10) || 0;
-        const y = parseInt(parts[1], 10) || 0;
+        const x = toDots(parts[0]) || 0;
+        const y = toDots(parts[1]) || 0;
         const bottom =
           parts.length > 2 ? parts[2].trim().toUpperCase() === "B" : false;
         printer.setNextPosition(
@@ -117,19 +569,61 @@ export function analyze(zplString) {
         // Label Home
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const x = parseInt(parts[0], 10) || 0;
-        const y = parseInt(parts[1], 10) || 0;
+        const x = toDots(parts[0]) || 0;
+        const y = toDots(parts[1]) || 0;
         printer.setLabelHome(x, y);
         break;
       }
+      case "PW": {
+        // Print Width: ^PWa (width in dots)
+        const width = toDots(cmd.substring(3));
+        printer.setPrintWidth(width);
+        break;
+      }
+      case "LL": {
+        // Label Length: ^LLy (length in dots)
+        const length = toDots(cmd.substring(3));
+        printer.setLabelLength(length);
+        break;
+      }
+      case "PO": {
+        // Print orientation: ^POI prints the label upside down
+        printer.setPrintOrientation(cmd.substring(3).trim());
+        break;
+      }
+      case "PM": {
+        // Mirror image of the whole label: ^PMY / ^PMN
+        printer.setMirror(/^Y/i.test(cmd.substring(3).trim()));
+        break;
+      }
+      case "LS": {
+        // Label shift: ^LSa moves every field a dots to the left
+        printer.setLabelShift(toDots(cmd.substring(3)) || 0);
+        break;
+      }
+      case "LT": {
+        // Label top: ^LTx moves the whole format x dot rows down
+        printer.setLabelTop(toDots(cmd.substring(3)) || 0);
+        break;
+      }
+      case "MU": {
+        // Units of measure: ^MUa,b,c (unit, base dpi, desired dpi)
+        const parts = cmd.substring(3).split(",");
+        printer.setUnits(
+          parts[0].trim(),
+          parseInt(parts[1], 10),
+          parseInt(parts[2], 10)
+        );
+        break;
+      }
       case "BY": {
         // Barcode module defaults
         // ^BYw,r,h
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const moduleWidth = parseInt(parts[0], 10);
+        const moduleWidth = toDots(parts[0]);
         const ratio = parts.length > 1 ? parseFloat(parts[1]) : undefined;
-        const height = parts.length > 2 ? parseInt(parts[2], 10) : undefined;
+        const height = parts.length > 2 ? toDots(parts[2]) : undefined;
         printer.setBarcodeDefaults(moduleWidth, ratio, height);
         break;
       }
@@ -138,20 +632,28 @@ export function analyze(zplString) {
         // ^GBw,h,t,c,r (width, height, thickness, color, rounding)
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const w = parseInt(parts[0], 10) || 0;
-        const h = parts.length > 1 ? parseInt(parts[1], 10) : 0;
-        const t = parts.length > 2 ? parseInt(parts[2], 10) : 1;
+        const w = toDots(parts[0]) || 0;
+        const h = parts.length > 1 ? toDots(parts[1]) : 0;
+        const t = parts.length > 2 ? toDots(parts[2]) : 1;
         const c = parts.length > 3 ? parts[3].trim().toUpperCase() : "B";
-        // create box element
+        const r = parseInt(parts[4], 10) || 0;
         const pos = printer.nextPosition || { x: 0, y: 0 };
+        // ^FT gives the bottom of the box, which is never lower than its
+        // thickness; as with ^GC a box that would start above the label
+        // is kept at its top edge
+        const top =
+          printer.nextPosition && printer.nextPosition.originType === "baseline"
+            ? Math.max(0, pos.y - Math.max(h, t || 1))
+            : pos.y;
         currentElements.push({
           type: "box",
           x: pos.x,
-          y: pos.y,
+          y: top,
           width: w,
           height: h,
           thickness: t,
           color: c,
+          rounding: r >= 0 && r <= 8 ? r : 0,
           reverse: printer.consumeReverseNext(),
         });
         printer.clearNextPosition();
@@ -163,6 +665,11 @@ export function analyze(zplString) {
         printer.setReverseNext();
         break;
       }
+      case "LR": {
+        // Label Reverse: ^LRY reverses every following field, ^LRN stops
+        printer.setLabelReverse(/^Y/i.test(cmd.substring(3).trim()));
+        break;
+      }
       case "CF": {
         // Change default font and size: ^CFa,h,w
         const paramString = cmd.substring(3);
@@ -178,13 +685,13 @@ export function analyze(zplString) {
         let height;
         let width;
         if (parts.length > 1) {
-          const h = parseInt(parts[1], 10);
+          const h = toDots(parts[1]);
           if (!isNaN(h)) {
             height = h;
           }
         }
         if (parts.length > 2) {
-          const w = parseInt(parts[2], 10);
+          const w = toDots(parts[2]);
           if (!isNaN(w)) {
             width = w;
           }
@@ -198,6 +705,46 @@ export function analyze(zplString) {
         );
         break;
       }
+      case "DF": {
+        // Download format: ^DFd:o.x stores the rest of the label
+        recording = {
+          name: graphicName(cmd.substring(3), "ZPL"),
+          commands: [],
+        };
+        break;
+      }
+      case "XF": {
+        // Recall format: ^XFd:o.x.  The format is expanded at ^XZ once
+        // the data for its fields is known.
+        recall = {
+          name: graphicName(cmd.substring(3), "ZPL"),
+          values: { ...(seededValues.get(i) || {}) },
+          source,
+        };
+        break;
+      }
+      case "FN": {
+        // Field number: ^FN#"prompt"
+        const match = /^(\d+)(?:"([^"]*)"?)?/.exec(cmd.substring(3));
+        if (match) {
+          printer.setFieldNumber(parseInt(match[1], 10), match[2]);
+        }
+        break;
+      }
+      case "FH": {
+        // Field Hexadecimal indicator: ^FHa (default '_')
+        printer.setHexIndicator(cmd.charAt(3));
+        break;
+      }
+      case "CI": {
+        // Change international encoding: ^CIa,s1,d1,s2,d2,...
+        const parts = cmd
+          .substring(3)
+          .split(",")
+          .map((p) => parseInt(p, 10));
+        printer.setCharset(parts[0], parts.slice(1));
+        break;
+      }
       case "FW": {
         // Field orientation: ^FWo
         // Example: ^FWB sets default orientation to 270° for subsequent fields.
@@ -213,23 +760,33 @@ export function analyze(zplString) {
         // width, number of lines, line spacing, alignment, hanging indent
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const width = parts.length > 0 ? parseInt(parts[0], 10) : 0;
+        const width = parts.length > 0 ? toDots(parts[0]) : 0;
         const lines = parts.length > 1 ? parseInt(parts[1], 10) : 0;
-        const spacing = parts.length > 2 ? parseInt(parts[2], 10) : 0;
+        const spacing = parts.length > 2 ? toDots(parts[2]) : 0;
         const align =
           parts.length > 3 && parts[3].trim().length > 0
             ? parts[3].trim().charAt(0).toUpperCase()
             : "L";
-        const indent = parts.length > 4 ? parseInt(parts[4], 10) : 0;
+        const indent = parts.length > 4 ? toDots(parts[4]) : 0;
         printer.setFieldBlock(width, lines, spacing, align, indent);
         break;
       }
+      case "TB": {
+        // Text Block: ^TBa,b,c
+        // orientation, width and height of the block
+        const parts = cmd.substring(3).split(",");
+        const orientation = (parts[0] || "").trim().toUpperCase();
+        const width = parts.length > 1 ? toDots(parts[1]) : 0;
+        const height = parts.length > 2 ? toDots(parts[2]) : 0;
+        printer.setTextBlock(orientation, width, height);
+        break;
+      }
       case "IM": {
         // Image recall: ^IMd:o.x,mx,my
         // Pull the graphic out of storage and queue an image element
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const fileSpec = parts[0] ? parts[0].trim() : "";
+        const fileSpec = parts[0] ? graphicName(parts[0], "GRF") : "";
         const mx =
           parts.length > 1 && parts[1] !== undefined && parts[1] !== ""
             ? parseFloat(parts[1])
@@ -243,6 +800,9 @@ export function analyze(zplString) {
           y: printer.labelHome.y,
         };
         const graphic = printer.getGraphic(fileSpec);
+        if (!graphic) {
+          diagnose("error", "missing-graphic", `No graphic ${fileSpec}`);
+        }
         currentElements.push({
           type: "image",
           x: pos.x,
@@ -276,7 +836,8 @@ export function analyze(zplString) {
             parseInt(paramString.substring(second + 1, third), 10) || 0;
           const data = paramString.substring(third + 1);
           // Store raw graphic data.  The actual decoding is deferred to the image drawer.
-          printer.saveGraphic(name, {
+          printer.saveGraphic(graphicName(name, "GRF"), {
+            type: "grf",
             totalBytes: total,
             bytesPerRow: bytesPerRow,
             dataString: data,
@@ -290,11 +851,23 @@ export function analyze(zplString) {
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
         if (parts.length >= 6) {
-          const name = parts[0].trim();
-          // f,b,x,t,w are ignored here; the last part is hex data
           // The data may include commas if empty strings appear before the last value
           const dataParts = parts.slice(5);
           const dataHex = dataParts.join(",");
+          // TrueType fonts (extension T or E) are stored as fonts
+          const extension = parts[2].trim().toUpperCase();
+          if (extension === "T" || extension === "E") {
+            const name = graphicName(
+              parts[0],
+              extension === "T" ? "TTF" : "TTE"
+            );
+            const total = parseInt(parts[3], 10) || 0;
+            const format = parts[1].trim().toUpperCase() === "B" ? "B" : "A";
+            saveDownloadedFont(name, decodeGrfData(dataHex, total, format));
+            break;
+          }
+          const name = graphicName(parts[0], "PNG");
+          // f,b,x,t,w are ignored here; the last part is hex data
           try {
             const buffer = Buffer.from(dataHex.trim(), "hex");
             printer.saveGraphic(name, { data: buffer, type: "png" });
@@ -305,11 +878,97 @@ export function analyze(zplString) {
         }
         break;
       }
+      case "DU":
+      case "DT": {
+        // Download unbounded TrueType font: ~DUd:o.x,s,data, or a
+        // TrueType font of at most 64K: ~DTd:o.x,s,data
+        const paramString = cmd.substring(3);
+        const first = paramString.indexOf(",");
+        const second = first >= 0 ? paramString.indexOf(",", first + 1) : -1;
+        if (first >= 0 && second >= 0) {
+          const name = graphicName(
+            paramString.substring(0, first),
+            prefix === "DU" ? "FNT" : "DAT"
+          );
+          const size =
+            parseInt(paramString.substring(first + 1, second), 10) || 0;
+          saveDownloadedFont(
+            name,
+            decodeGrfData(paramString.substring(second + 1), size)
+          );
+        }
+        break;
+      }
+      case "DB": {
+        // Download bitmap font:
+        // ~DBd:o.x,a,h,w,base,space,#char,©,data
+        const paramString = cmd.substring(3);
+        const first = paramString.indexOf(",");
+        // The character definitions start at the first "#xxxx." entry;
+        // anything before it belongs to the header
+        const start = paramString.search(/#[0-9A-Fa-f]+\./);
+        if (first >= 0 && start > first) {
+          const name = graphicName(paramString.substring(0, first), "FNT");
+          const header = paramString.substring(first + 1, start).split(",");
+          printer.saveFont(
+            name,
+            decodeBitmapFont(header, paramString.substring(start))
+          );
+        }
+        break;
+      }
+      case "CW": {
+        // Font identifier: ^CWa,d:o.x assigns a font file to a designator
+        const paramString = cmd.substring(3);
+        const comma = paramString.indexOf(",");
+        if (comma > 0) {
+          printer.setFontAlias(
+            paramString.substring(0, comma).trim().charAt(0),
+            graphicName(paramString.substring(comma + 1), "FNT")
+          );
+        }
+        break;
+      }
+      case "GF": {
+        // Graphic field: ^GFa,b,c,d,data (compression type, binary byte
+        // count, graphic field count, bytes per row, data).  The data
+        // may itself contain commas, so only the first four are split.
+        const paramString = cmd.substring(3);
+        const parts = paramString.split(",");
+        if (parts.length >= 5) {
+          const format = parts[0].trim().toUpperCase() || "A";
+          const total = parseInt(parts[2], 10) || 0;
+          const bytesPerRow = parseInt(parts[3], 10) || 0;
+          const data = parts.slice(4).join(",");
+          const pos = printer.nextPosition || {
+            x: printer.labelHome.x,
+            y: printer.labelHome.y,
+          };
+          currentElements.push({
+            type: "image",
+            x: pos.x,
+            y: pos.y,
+            scaleX: 1,
+            scaleY: 1,
+            reverse: printer.consumeReverseNext(),
+            orientation: "N",
+            graphic: {
+              type: "grf",
+              format: format,
+              totalBytes: total,
+              bytesPerRow: bytesPerRow,
+              dataString: data,
+            },
+          });
+        }
+        printer.clearNextPosition();
+        break;
+      }
       case "XG": {
         // Recall graphic: ^XGd:o.x,mx,my
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const fileSpec = parts[0] ? parts[0].trim() : "";
+        const fileSpec = parts[0] ? graphicName(parts[0], "GRF") : "";
         const mx =
           parts.length > 1 && parts[1] !== undefined && parts[1] !== ""
             ? parseFloat(parts[1])
@@ -323,6 +982,9 @@ export function analyze(zplString) {
           y: printer.labelHome.y,
         };
         const graphic = printer.getGraphic(fileSpec);
+        if (!graphic) {
+          diagnose("error", "missing-graphic", `No graphic ${fileSpec}`);
+        }
         currentElements.push({
           type: "image",
           x: pos.x,
@@ -339,17 +1001,24 @@ export function analyze(zplString) {
         break;
       }
       case "GC": {
-        // Graphic Circle: ^GCd,t,c,r
+        // Graphic Circle: ^GCd,t,c (diameter, thickness, colour).  The
+        // thickness defaults to 1 dot.
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const d = parseInt(parts[0], 10) || 0;
-        const t = parts.length > 1 ? parseInt(parts[1], 10) : 0;
+        const d = toDots(parts[0]) || 0;
+        const t = (parts.length > 1 && toDots(parts[1])) || 1;
         const c = parts.length > 2 ? parts[2].trim().toUpperCase() : "B";
         const pos = printer.nextPosition || { x: 0, y: 0 };
+        // ^FT gives the bottom of the circle; like the printer we keep a
+        // circle that would start above the label at its top edge
+        const top =
+          printer.nextPosition && printer.nextPosition.originType === "baseline"
+            ? Math.max(0, pos.y - d)
+            : pos.y;
         currentElements.push({
           type: "circle",
           x: pos.x,
-          y: pos.y,
+          y: top,
           diameter: d,
           thickness: t,
           color: c,
@@ -359,13 +1028,16 @@ export function analyze(zplString) {
         break;
       }
       case "GD": {
-        // Graphic Diagonal Line: ^GDw,h,t,c
+        // Graphic Diagonal Line: ^GDw,h,t,c,o.  The width and height
+        // default to the thickness; o is R or / (right-leaning, the
+        // default) or L or \ (left-leaning).
         const paramString = cmd.substring(3);
         const parts = paramString.split(",");
-        const w = parseInt(parts[0], 10) || 0;
-        const h = parts.length > 1 ? parseInt(parts[1], 10) : 0;
-        const t = parts.length > 2 ? parseInt(parts[2], 10) : 1;
+        const t = (parts.length > 2 && toDots(parts[2])) || 1;
+        const w = toDots(parts[0]) || t;
+        const h = (parts.length > 1 && toDots(parts[1])) || t;
         const c = parts.length > 3 ? parts[3].trim().toUpperCase() : "B";
+        const o = parts.length > 4 ? parts[4].trim().toUpperCase() : "R";
         const pos = printer.nextPosition || { x: 0, y: 0 };
         currentElements.push({
           type: "diagonal",
@@ -375,177 +1047,236 @@ export function analyze(zplString) {
           height: h,
           thickness: t,
           color: c,
+          direction: o === "L" || o === "\\" ? "L" : "R",
           reverse: printer.consumeReverseNext(),
         });
         printer.clearNextPosition();
         break;
       }
+      case "GE": {
+        // Graphic Ellipse: ^GEw,h,t,c.  The width and height default
+        // to the thickness.
+        const parts = cmd.substring(3).split(",");
+        const t = (parts.length > 2 && toDots(parts[2])) || 1;
+        const w = toDots(parts[0]) || t;
+        const h = (parts.length > 1 && toDots(parts[1])) || t;
+        const c = parts.length > 3 ? parts[3].trim().toUpperCase() : "B";
+        const pos = printer.nextPosition || { x: 0, y: 0 };
+        currentElements.push({
+          type: "ellipse",
+          x: pos.x,
+          y: pos.y,
+          width: w,
+          height: h,
+          thickness: t,
+          color: c,
+          reverse: printer.consumeReverseNext(),
+        });
+        printer.clearNextPosition();
+        break;
+      }
+      case "GS": {
+        // Graphic Symbol: ^GSo,h,w.  The symbol is given by the field
+        // data (A to E); height and width default to those of the
+        // current font.
+        const parts = cmd.substring(3).split(",");
+        const o = (parts[0] || "").trim().toUpperCase();
+        const font = printer.getFont();
+        const h = (parts.length > 1 && toDots(parts[1])) || font.height;
+        const w = (parts.length > 2 && toDots(parts[2])) || font.width || h;
+        printer.setPendingSymbol({
+          orientation: /^[NRIB]$/.test(o)
+            ? (o as Orientation)
+            : font.orientation || "N",
+          height: h,
+          width: w,
+        });
+        break;
+      }
       case "FD": {
         // Field Data
         // Text or barcode data
-        const text = cmd.substring(3);
+        const field = printer.fieldNumber;
+        if (field !== null && recall) {
+          // Data for a field of the recalled format (^FN#^FD...)
+          recall.values[field] = printer.decodeFieldData(cmd.substring(3));
+          printer.clearNextPosition();
+          break;
+        }
+        const value =
+          field !== null && expanding
+            ? fieldValue(expanding.values, field, printer.fieldPrompt)
+            : undefined;
+        printer.markFieldData();
+        const text =
+          value !== undefined
+            ? String(value)
+            : printer.decodeFieldData(cmd.substring(3));
         const pos = printer.nextPosition || {
           x: printer.labelHome.x,
           y: printer.labelHome.y,
         };
+        const reverse = printer.consumeReverseNext();
         // If a barcode command preceded, create barcode element
         if (printer.pendingBarcode) {
           const bc = printer.pendingBarcode;
-          const element = {
+          const element: BarcodeElement = {
             type: "barcode",
             x: pos.x,
             y: pos.y,
             codeType: bc.codeType,
             text: text,
             height: bc.height || printer.barcodeHeight,
+            width: bc.width,
             moduleWidth: bc.moduleWidth || printer.barcodeModuleWidth,
             ratio: bc.ratio || printer.barcodeRatio,
             options: bc.options || {},
             orientation: bc.orientation || "N",
             printInterpretation: bc.printInterpretation,
             printAbove: bc.printAbove,
+            originType:
+              (printer.nextPosition && printer.nextPosition.originType) ||
+              "top-left",
+            reverse: reverse,
           };
           currentElements.push(element);
           printer.clearPendingBarcode();
+        } else if (printer.pendingSymbol) {
+          // Graphic symbol (^GS) named by the field data
+          const symbol = printer.pendingSymbol;
+          currentElements.push({
+            type: "symbol",
+            x: pos.x,
+            y: pos.y,
+            symbol: text.trim().charAt(0).toUpperCase(),
+            orientation: symbol.orientation,
+            height: symbol.height,
+            width: symbol.width,
+            originType:
+              (printer.nextPosition && printer.nextPosition.originType) ||
+              "top-left",
+            reverse: reverse,
+          });
+          printer.clearPendingSymbol();
         } else {
           // Normal or field block text field.  Determine the coordinate origin type from the
           // next position.  When originType is 'top-left', the y value
           // specifies the top of the text; when 'baseline', the y value
           // specifies the baseline.  If not provided, assume 'top-left'.
           const font = printer.getFont();
+          const metrics = resolveFont(
+            font.name,
+            font.height,
+            font.width,
+            printer.dpi,
+            printer.getFontSource(font)
+          );
           const originType =
             (printer.nextPosition && printer.nextPosition.originType) ||
             "top-left";
+          // A field or text block (^FB, ^TB) is laid out into lines by
+          // the text drawer
           const block = printer.fieldBlock;
-          if (block) {
-            /*
-             * When a field block (^FB) is active the data may contain explicit
-             * line breaks (encoded as "\&") and must also be wrapped to fit
-             * within the specified block width.  Furthermore, if the caller
-             * provides a maximum number of lines greater than the actual
-             * number of wrapped lines the text should be vertically centred
-             * within the block.  Zebra printers wrap words based on the
-             * available width and break on spaces when possible.  The
-             * algorithm here implements a simple approximation: it assumes
-             * an average character width of 60% of the font height and
-             * compresses the width for font '0' using the same scale
-             * applied in the TextDrawer.  This yields a reasonable fit for
-             * most test cases (e.g. test 27 where "Second line" wraps
-             * into two lines when the block is narrow).  If there is no
-             * whitespace in the text or a single word is longer than the
-             * maximum width it will be placed on its own line.
-             */
-            // Split on explicit line breaks first
-            const rawParts = text.split(/\\&/);
-            const wrappedLines = [];
-            const fontHeight = font.height || 10;
-            // Estimate horizontal scale for font 0 (OCRA) as used in TextDrawer
-            let scaleX = 1;
-            if (font.name && font.name.toString().toUpperCase() === "0") {
-              // Use the same default compression factor as TextDrawer
-              scaleX = 0.65;
-              if (
-                font.width &&
-                font.width > 0 &&
-                font.height &&
-                font.height > 0
-              ) {
-                scaleX = font.width / font.height;
-              }
-            }
-            // Compute approximate character width in dots
-            const charWidth = fontHeight * 0.6 * scaleX;
-            const maxChars =
-              block.width > 0
-                ? Math.floor(block.width / (charWidth || 1))
-                : Infinity;
-            for (const raw of rawParts) {
-              // Break the raw string into words and accumulate
-              const words = raw.split(/\s+/);
-              let line = "";
-              for (let i = 0; i < words.length; i++) {
-                const word = words[i];
-                // Determine the prospective length if we add this word
-                const prospective = line.length > 0 ? line + " " + word : word;
-                if (
-                  maxChars !== Infinity &&
-                  prospective.length > maxChars &&
-                  line.length > 0
-                ) {
-                  // Push the current line and start a new one
-                  wrappedLines.push(line);
-                  line = word;
-                } else {
-                  line = prospective;
-                }
-              }
-              // Push any remaining text on the current line
-              wrappedLines.push(line);
-            }
-            // Limit the number of lines to the block specification if provided
-            const actualLineCount = wrappedLines.length;
-            const maxLines =
-              block.lines && block.lines > 0
-                ? Math.min(block.lines, actualLineCount)
-                : actualLineCount;
-            // Compute vertical offset to centre the lines within the block if
-            // the number of allowed lines exceeds the number of wrapped lines.
-            let offsetY = 0;
-            if (
-              block.lines &&
-              block.lines > 0 &&
-              block.lines > actualLineCount
-            ) {
-              const totalHeight =
-                actualLineCount * (fontHeight + block.lineSpacing) -
-                block.lineSpacing;
-              const availableHeight =
-                block.lines * (fontHeight + block.lineSpacing) -
-                block.lineSpacing;
-              offsetY = Math.floor((availableHeight - totalHeight) / 2);
-            }
-            for (let i = 0; i < maxLines; i++) {
-              const line = wrappedLines[i];
-              // indent subsequent lines by the hanging indent
-              const xOffset = i === 0 ? 0 : block.indent || 0;
-              currentElements.push({
-                type: "text",
-                x: pos.x + xOffset,
-                y: pos.y + offsetY + i * (fontHeight + block.lineSpacing),
-                text: line,
-                height: fontHeight,
-                width: font.width,
-                fontName: font.name,
-                orientation: font.orientation,
-                originType: originType,
-                blockWidth: block.width,
-                blockAlign: block.align,
-              });
-            }
-            // Clear the field block once used
-            printer.clearFieldBlock();
-          } else {
-            currentElements.push({
-              type: "text",
-              x: pos.x,
-              y: pos.y,
-              text: text,
-              height: font.height,
-              width: font.width,
-              fontName: font.name,
-              orientation: font.orientation,
-              originType: originType,
-            });
-          }
+          currentElements.push({
+            type: "text",
+            x: pos.x,
+            y: pos.y,
+            text: text,
+            height: font.height,
+            width: font.width,
+            fontName: font.name,
+            font: metrics,
+            orientation:
+              (block && block.type === "TB" && block.orientation) ||
+              font.orientation,
+            originType: originType,
+            block: block,
+            reverse: reverse,
+          });
+          printer.clearFieldBlock();
+        }
+        // The last element holds the end of the data, which is where
+        // serialization applies; a graphic symbol has no data to count
+        const last = currentElements[currentElements.length - 1];
+        fieldElement =
+          last && (last.type === "text" || last.type === "barcode")
+            ? last
+            : null;
+        if (pendingSerial && fieldElement) {
+          fieldElement.serial = pendingSerial;
         }
+        pendingSerial = null;
         printer.clearNextPosition();
         break;
       }
+      case "SN": {
+        // Serialization data: ^SNv,n,z (start value, increment, leading
+        // zeros).  It takes the place of ^FD for the field.
+        const parts = cmd.substring(3).split(",");
+        pendingSerial = {
+          type: "SN",
+          increment: parseInt(parts[1], 10) || 1,
+          zeros: /^\s*Y/i.test(parts[2] || ""),
+        };
+        commands.splice(i + 1, 0, { ...commands[i], text: `^FD${parts[0]}` });
+        break;
+      }
+      case "SF": {
+        // Serialization field: ^SFa,b (mask, increment string) for the
+        // data of the current field
+        const parts = cmd.substring(3).split(",");
+        const serial: Serialization = {
+          type: "SF",
+          mask: parts[0] || "",
+          increment: parts[1] || undefined,
+        };
+        if (fieldElement) {
+          fieldElement.serial = serial;
+        } else {
+          pendingSerial = serial;
+        }
+        break;
+      }
+      case "PQ": {
+        // Print quantity: ^PQq,p,r,o (total, pause every, replicates,
+        // override pause)
+        const parts = cmd.substring(3).split(",");
+        quantitySource = source;
+        printer.setQuantity(
+          parseInt(parts[0], 10),
+          parseInt(parts[1], 10),
+          parseInt(parts[2], 10),
+          /^\s*Y/i.test(parts[3] || "")
+        );
+        break;
+      }
       case "FS": {
         // Field Separator
+        // A format field without ^FD of its own still prints the data
+        // supplied for it by the recall
+        const pendingValue =
+          expanding && printer.fieldNumber !== null && !printer.fieldHasData
+            ? fieldValue(
+                expanding.values,
+                printer.fieldNumber,
+                printer.fieldPrompt
+              )
+            : undefined;
+        if (pendingValue !== undefined) {
+          commands.splice(i, 0, { ...commands[i], text: "^FD" });
+          i--;
+          continue;
+        }
         // Clear any pending state; in this implementation we just clear the position
         printer.clearNextPosition();
         printer.clearPendingBarcode();
+        printer.clearPendingSymbol();
+        printer.clearHexIndicator();
+        printer.clearFieldNumber();
+        // ^FR only applies to the field it appears in
+        printer.consumeReverseNext();
+        fieldElement = null;
+        pendingSerial = null;
         break;
       }
       default: {
@@ -562,14 +1293,14 @@ export function analyze(zplString) {
           // offsets (e.g. treating '3' as part of the first parameter).
           let afterPrefix = cmd.substring(3);
           // Determine orientation.  If the first non-comma character is in N,R,I,B, use it.
-          let orientation = "N";
+          let orientation: Orientation = "N";
           let restParams = afterPrefix;
           // Skip any leading commas
           while (restParams.startsWith(",")) {
             restParams = restParams.substring(1);
           }
           if (/^[NRIB]/i.test(restParams.charAt(0))) {
-            orientation = restParams.charAt(0).toUpperCase();
+            orientation = restParams.charAt(0).toUpperCase() as Orientation;
             restParams = restParams.substring(1);
             if (restParams.startsWith(",")) {
               restParams = restParams.substring(1);
@@ -578,13 +1309,16 @@ export function analyze(zplString) {
           // Split remaining parameters on commas.  Empty strings are preserved to maintain positional meaning.
           const params = restParams.length > 0 ? restParams.split(",") : [];
           // Helper to parse integer parameters safely
-          const parseIntSafe = (val) => {
-            const n = parseInt(val, 10);
+          const parseIntSafe = (val: string | number | undefined) => {
+            const n = parseInt(String(val), 10);
             return isNaN(n) ? undefined : n;
           };
+          // Default magnification of the 2D symbologies: 2 at 203 dpi,
+          // 3 at 300 dpi and 6 at 600 dpi
+          const magnification = Math.max(1, Math.round(printer.dpi / 100));
           // Default spec object for linear barcodes
-          const spec = {
-            codeType: undefined,
+          const spec: BarcodeSpec = {
+            codeType: "",
             orientation: orientation,
             height: printer.barcodeHeight,
             moduleWidth: printer.barcodeModuleWidth,
@@ -594,10 +1328,11 @@ export function analyze(zplString) {
           // Determine the code type and parse code‑specific parameters
           switch (second) {
             case "C":
-              // Code 128 (^BC).  Params: height, printInterpretation (Y/N), printAbove (Y/N), mode
+              // Code 128 (^BC).  Params: height, printInterpretation (Y/N),
+              // printAbove (Y/N), UCC check digit (Y/N), mode (N/U/A/D)
               spec.codeType = "code128";
               if (params.length > 0) {
-                const h = parseIntSafe(params[0]);
+                const h = parseIntSafe(toDots(params[0]));
                 if (h !== undefined) spec.height = h;
               }
               // print interpretation line (default true if omitted)
@@ -611,13 +1346,22 @@ export function analyze(zplString) {
                 pa = /[Yy]/.test(params[2]);
               }
               spec.printAbove = pa;
-              // Mode (automatic, etc.) is ignored for now (params[3])
+              // The mode decides how the data is encoded; see code128.ts
+              spec.options = {
+                checkDigit: params.length > 3 && /[Yy]/.test(params[3]),
+                mode:
+                  params.length > 4 && /^[NUAD]$/i.test(params[4].trim())
+                    ? params[4].trim().toUpperCase()
+                    : "N",
+              };
               break;
             case "3":
-              // Code 39 (^B3).  Params: checkDigit (ignored), height, printInterpretation, printAbove
+              // Code 39 (^B3).  Params: checkDigit (Mod 43), height, printInterpretation, printAbove
               spec.codeType = "code39";
+              spec.options.checkDigit =
+                params.length > 0 && /[Yy]/.test(params[0]);
               if (params.length > 1) {
-                const h = parseIntSafe(params[1]);
+                const h = parseIntSafe(toDots(params[1]));
                 if (h !== undefined) spec.height = h;
               }
               {
@@ -639,7 +1383,7 @@ export function analyze(zplString) {
               // EAN-13 (^BE or ^B8).  Params: height, printInterpretation, printAbove
               spec.codeType = "ean13";
               if (params.length > 0) {
-                const h = parseIntSafe(params[0]);
+                const h = parseIntSafe(toDots(params[0]));
                 if (h !== undefined) spec.height = h;
               }
               {
@@ -655,12 +1399,11 @@ export function analyze(zplString) {
                 spec.printAbove = paE;
               }
               break;
-            case "9":
             case "A":
-              // Code 93 (^B9 or ^BA).  Params: height, printInterpretation, printAbove
+              // Code 93 (^BA).  Params: height, printInterpretation, printAbove
               spec.codeType = "code93";
               if (params.length > 0) {
-                const h = parseIntSafe(params[0]);
+                const h = parseIntSafe(toDots(params[0]));
                 if (h !== undefined) spec.height = h;
               }
               {
@@ -680,7 +1423,7 @@ export function analyze(zplString) {
               // Interleaved 2 of 5 (^B2).  Params: height, printInterpretation, printAbove
               spec.codeType = "interleaved2of5";
               if (params.length > 0) {
-                const h = parseIntSafe(params[0]);
+                const h = parseIntSafe(toDots(params[0]));
                 if (h !== undefined) spec.height = h;
               }
               {
@@ -696,30 +1439,178 @@ export function analyze(zplString) {
                 spec.printAbove = pa2;
               }
               break;
-            case "Q":
-              // QR Code (^BQ).  Params: magnification, error correction level, mask
-              spec.codeType = "qrcode";
-              // The module size (scale) is first parameter
+            case "U":
+            case "9": {
+              // UPC-A (^BU) and UPC-E (^B9).  Params: height,
+              // printInterpretation, printAbove, print check digit
+              spec.codeType = second === "U" ? "upca" : "upce";
               if (params.length > 0) {
-                const mag = parseIntSafe(params[0]);
-                if (mag !== undefined) {
-                  spec.options.scale = mag;
-                }
+                const h = parseIntSafe(toDots(params[0]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = !(
+                params.length > 1 && /[Nn]/.test(params[1])
+              );
+              spec.printAbove = params.length > 2 && /[Yy]/.test(params[2]);
+              // The check digit is always encoded; N leaves it out of
+              // the interpretation line
+              spec.options.printCheckDigit = !(
+                params.length > 3 && /[Nn]/.test(params[3])
+              );
+              break;
+            }
+            case "K": {
+              // ANSI Codabar (^BK).  Params: check digit (always N),
+              // height, printInterpretation, printAbove, start and stop
+              // characters (A, B, C or D)
+              spec.codeType = "rationalizedCodabar";
+              if (params.length > 1) {
+                const h = parseIntSafe(toDots(params[1]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = !(
+                params.length > 2 && /[Nn]/.test(params[2])
+              );
+              spec.printAbove = params.length > 3 && /[Yy]/.test(params[3]);
+              const startStop = (value: string | undefined) => {
+                const letter = (value || "").trim().toUpperCase();
+                return /^[ABCD]$/.test(letter) ? letter : "A";
+              };
+              spec.options.start = startStop(params[4]);
+              spec.options.stop = startStop(params[5]);
+              break;
+            }
+            case "1": {
+              // Code 11 (^B1).  Params: check digit (Y = one digit,
+              // N = two digits), height, printInterpretation, printAbove
+              spec.codeType = "code11";
+              spec.options.checkDigits =
+                params.length > 0 && /[Yy]/.test(params[0]) ? 1 : 2;
+              if (params.length > 1) {
+                const h = parseIntSafe(toDots(params[1]));
+                if (h !== undefined) spec.height = h;
               }
-              // error correction level (L,M,Q,H)
-              if (params.length > 1 && params[1]) {
-                spec.options.ecclevel = params[1].trim().toUpperCase();
+              spec.printInterpretation = !(
+                params.length > 2 && /[Nn]/.test(params[2])
+              );
+              spec.printAbove = params.length > 3 && /[Yy]/.test(params[3]);
+              break;
+            }
+            case "M": {
+              // MSI (^BM).  Params: check digit selection (A none, B one
+              // Mod 10, C two Mod 10, D Mod 11 and Mod 10), height,
+              // printInterpretation, printAbove, check digit in the
+              // interpretation line
+              spec.codeType = "msi";
+              const checkTypes: Record<string, string> = {
+                B: "mod10",
+                C: "mod1010",
+                D: "mod1110",
+              };
+              const selection =
+                params.length > 0 && params[0].trim()
+                  ? params[0].trim().toUpperCase()
+                  : "B";
+              if (checkTypes[selection]) {
+                spec.options.includecheck = true;
+                spec.options.checktype = checkTypes[selection];
+                spec.options.includecheckintext =
+                  params.length > 4 && /[Yy]/.test(params[4]);
               }
+              if (params.length > 1) {
+                const h = parseIntSafe(toDots(params[1]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = !(
+                params.length > 2 && /[Nn]/.test(params[2])
+              );
+              spec.printAbove = params.length > 3 && /[Yy]/.test(params[3]);
+              break;
+            }
+            case "P": {
+              // Plessey (^BP).  Params: print check digit, height,
+              // printInterpretation, printAbove
+              spec.codeType = "plessey";
+              spec.options.includecheckintext =
+                params.length > 0 && /[Yy]/.test(params[0]);
+              if (params.length > 1) {
+                const h = parseIntSafe(toDots(params[1]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = !(
+                params.length > 2 && /[Nn]/.test(params[2])
+              );
+              spec.printAbove = params.length > 3 && /[Yy]/.test(params[3]);
+              break;
+            }
+            case "I":
+            case "J": {
+              // Industrial 2 of 5 (^BI) and Standard 2 of 5 (^BJ).
+              // Params: height, printInterpretation, printAbove
+              spec.codeType = second === "I" ? "industrial2of5" : "code2of5";
+              if (params.length > 0) {
+                const h = parseIntSafe(toDots(params[0]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = !(
+                params.length > 1 && /[Nn]/.test(params[1])
+              );
+              spec.printAbove = params.length > 2 && /[Yy]/.test(params[2]);
+              break;
+            }
+            case "L": {
+              // LOGMARS (^BL), Code 39 with a mandatory Mod 43 check
+              // digit.  Params: height, interpretation line above
+              spec.codeType = "code39";
+              spec.options.checkDigit = true;
+              if (params.length > 0) {
+                const h = parseIntSafe(toDots(params[0]));
+                if (h !== undefined) spec.height = h;
+              }
+              spec.printInterpretation = true;
+              spec.printAbove = params.length > 1 && /[Yy]/.test(params[1]);
+              break;
+            }
+            case "Q": {
+              // QR Code (^BQ).  Params: model (1 or 2), magnification,
+              // error correction level (H, Q, M or L) and mask (0 to 7).
+              // The field data names its own error correction level (see
+              // parseQrData() in qrcode.ts); the level given here is the
+              // default.  bwip-js only encodes Model 2: a Model 1 symbol
+              // falls back to Model 2, with an unsupported-option
+              // warning.
+              spec.codeType = "qrcode";
+              spec.options.model = params[0] === "1" ? 1 : 2;
+              if (spec.options.model === 1) {
+                diagnose(
+                  "warning",
+                  "unsupported-option",
+                  "Unsupported QR Code Model 1, printed as Model 2"
+                );
+              }
+              spec.options.scale = parseIntSafe(params[1]) || magnification;
+              const level = (params[2] || "").trim().toUpperCase();
+              spec.options.level = !level
+                ? "Q"
+                : /^[HQML]$/.test(level)
+                  ? level
+                  : "M";
+              const mask = parseIntSafe(params[3]);
+              spec.options.mask =
+                mask !== undefined && mask >= 0 && mask <= 7 ? mask : 7;
+              // Printers leave a gap of 10 dots at 203 dpi above the symbol
+              spec.options.topMargin = printer.scaleDefault(10);
               // QR codes are matrix symbologies so they do not display interpretation lines
               spec.printInterpretation = false;
               spec.printAbove = false;
               break;
+            }
             case "X":
               // Data Matrix (^BX).  Params: height? Actually ^BX indicates scale and error correction; we map to datamatrix
               spec.codeType = "datamatrix";
               // For Data Matrix, scale or module width can be specified as the first parameter
               if (params.length > 0) {
-                const scale = parseIntSafe(params[0]);
+                const scale = parseIntSafe(toDots(params[0]));
                 if (scale !== undefined) {
                   spec.options.scale = scale;
                 }
@@ -734,7 +1625,7 @@ export function analyze(zplString) {
               spec.printInterpretation = false;
               spec.printAbove = false;
               if (params.length > 0) {
-                const w = parseIntSafe(params[0]);
+                const w = parseIntSafe(toDots(params[0]));
                 if (w !== undefined) spec.moduleWidth = w;
               }
               if (params.length > 1) {
@@ -750,7 +1641,7 @@ export function analyze(zplString) {
                 if (rows !== undefined) spec.options.rows = rows;
               }
               if (params.length > 4) {
-                const rh = parseIntSafe(params[4]);
+                const rh = parseIntSafe(toDots(params[4]));
                 if (rh !== undefined) spec.options.rowheight = rh;
               }
               if (params.length > 5) {
@@ -758,28 +1649,131 @@ export function analyze(zplString) {
                 spec.options.truncated = /[Yy]/.test(params[5]);
               }
               break;
-            case "D":
-              // Some printers use ^BD for Code 128; treat as Code 128
-              spec.codeType = "code128";
-              if (params.length > 0) {
-                const h = parseIntSafe(params[0]);
-                if (h !== undefined) spec.height = h;
+            case "O":
+            case "0": {
+              // Aztec (^BO, ^B0).  Params: magnification, extended
+              // channel interpretation, error control and symbol size,
+              // menu symbol, structured append count and ID.  Structured
+              // append and ECI are not encoded.
+              spec.codeType = "azteccode";
+              spec.options.scale = parseIntSafe(params[0]) || magnification;
+              const size = parseIntSafe(params[2]) || 0;
+              if (size >= 1 && size <= 99) {
+                spec.options.eclevel = size;
+              } else if (size >= 101 && size <= 104) {
+                spec.options.format = "compact";
+                spec.options.layers = size - 100;
+              } else if (size >= 201 && size <= 232) {
+                spec.options.format = "full";
+                spec.options.layers = size - 200;
+              } else if (size === 300) {
+                spec.codeType = "aztecrune";
               }
-              {
-                let piD = true;
-                if (params.length > 1) {
-                  piD = /[Yy]/.test(params[1]);
-                }
-                spec.printInterpretation = piD;
-                let paD = false;
-                if (params.length > 2) {
-                  paD = /[Yy]/.test(params[2]);
-                }
-                spec.printAbove = paD;
+              if (params.length > 3 && /[Yy]/.test(params[3])) {
+                spec.options.readerinit = true;
+              }
+              spec.printInterpretation = false;
+              spec.printAbove = false;
+              break;
+            }
+            case "D": {
+              // MaxiCode (^BD).  Params: mode (2 to 6), symbol number and
+              // number of symbols in a structured append.  MaxiCode has no
+              // orientation parameter and a fixed physical size, printed
+              // about an inch wide.
+              spec.orientation = "N";
+              spec.codeType = "maxicode";
+              const fields = afterPrefix.split(",");
+              const mode = parseIntSafe(fields[0]);
+              spec.options.mode =
+                mode !== undefined && mode >= 2 && mode <= 6 ? mode : 2;
+              const position = parseIntSafe(fields[1]) || 1;
+              const total = parseIntSafe(fields[2]) || 1;
+              if (total > 1 && total <= 8 && position <= total) {
+                spec.options.sam = position * 10 + total;
+              }
+              spec.options.scale = magnification;
+              spec.width = Math.round(printer.dpi * 0.985);
+              spec.printInterpretation = false;
+              spec.printAbove = false;
+              break;
+            }
+            case "R": {
+              // GS1 DataBar (^BR).  Params: symbology type (1 to 12),
+              // magnification, separator height, height of the linear
+              // part of UCC/EAN-128 composites and segment width of
+              // DataBar Expanded.  Types 7 to 12 carry a composite
+              // component after a "|" in the data.
+              const type = parseIntSafe(params[0]) || 1;
+              const symbology = DATABAR_TYPES[type - 1] || DATABAR_TYPES[0];
+              spec.codeType = symbology.codeType;
+              Object.assign(spec.options, symbology.options);
+              const mag = parseIntSafe(params[1]) || magnification;
+              spec.options.scale = mag;
+              const segments = parseIntSafe(params[4]);
+              if (type === 6 && segments && segments >= 2 && segments < 22) {
+                spec.codeType = "databarexpandedstacked";
+                spec.options.segments = segments - (segments % 2);
+              }
+              if (type === 11 || type === 12) {
+                const h = parseIntSafe(toDots(params[3])) || 25;
+                spec.options.height = (h * 25.4) / (72 * mag);
+              }
+              spec.printInterpretation = false;
+              spec.printAbove = false;
+              break;
+            }
+            case "F": {
+              // MicroPDF417 (^BF).  Params: row height and mode (0 to
+              // 33), which selects the number of columns and rows
+              spec.codeType = "micropdf417";
+              const rowHeight = parseIntSafe(toDots(params[0]));
+              const mode = parseIntSafe(params[1]) || 0;
+              const [columns, rows] =
+                MICROPDF417_SIZES[mode] || MICROPDF417_SIZES[0];
+              spec.options.columns = columns;
+              spec.options.rows = rows;
+              spec.options.rowmult = Math.max(
+                1,
+                Math.round((rowHeight || spec.height) / spec.moduleWidth)
+              );
+              spec.printInterpretation = false;
+              spec.printAbove = false;
+              break;
+            }
+            case "B": {
+              // Codablock (^BB).  Params: row height, security level,
+              // characters per row, number of rows and mode (A, E or
+              // F).  Only Codablock F is encoded; modes A and E are
+              // drawn as Codablock F.
+              spec.codeType = "codablockf";
+              const rowHeight = parseIntSafe(toDots(params[0])) || 8;
+              // bwip-js draws rows of at least 8 modules; the drawer
+              // scales the symbol to rows of the requested height
+              spec.options.rowheight = Math.max(
+                8,
+                Math.round(rowHeight / spec.moduleWidth)
+              );
+              spec.options.rowHeightDots = rowHeight;
+              const columns = parseIntSafe(params[2]);
+              if (columns && columns >= 4 && columns <= 62) {
+                spec.options.columns = columns;
               }
+              const rows = parseIntSafe(params[3]);
+              if (rows && rows >= 2 && rows <= 44) {
+                spec.options.rows = rows;
+              }
+              spec.printInterpretation = false;
+              spec.printAbove = false;
               break;
+            }
             default:
-              // Unknown barcode type; do nothing
+              // Unknown barcode type; its field prints nothing
+              diagnose(
+                "warning",
+                "unknown-command",
+                `Unsupported barcode type ${cmd.substring(0, 3)}`
+              );
               break;
           }
           // If a valid code type was identified, enqueue the pending barcode for the next ^FD command
@@ -800,24 +1794,53 @@ export function analyze(zplString) {
           while (afterPrefix.startsWith(",")) {
             afterPrefix = afterPrefix.substring(1);
           }
-          let fontOrientation = "N";
+          let fontOrientation: Orientation = "N";
           if (/^[NRIB]/i.test(afterPrefix.charAt(0))) {
-            fontOrientation = afterPrefix.charAt(0).toUpperCase();
+            fontOrientation = afterPrefix
+              .charAt(0)
+              .toUpperCase() as Orientation;
             afterPrefix = afterPrefix.substring(1);
             if (afterPrefix.startsWith(",")) {
               afterPrefix = afterPrefix.substring(1);
             }
           }
           const fparts = afterPrefix.length > 0 ? afterPrefix.split(",") : [];
-          const fheight =
-            fparts.length > 0 ? parseInt(fparts[0], 10) : undefined;
-          const fwidth =
-            fparts.length > 1 ? parseInt(fparts[1], 10) : undefined;
-          printer.setFont(fontDesignator, fontOrientation, fheight, fwidth);
+          const fheight = fparts.length > 0 ? toDots(fparts[0]) : undefined;
+          const fwidth = fparts.length > 1 ? toDots(fparts[1]) : undefined;
+          // ^A@ names the font file to print in: ^A@o,h,w,d:o.x
+          const file =
+            fontDesignator === "@" && fparts[2]
+              ? graphicName(fparts[2], "FNT")
+              : undefined;
+          printer.setFont(fontDesignator, fontOrientation, fheight, fwidth, file);
+        } else if (!SETTINGS_COMMANDS.has(prefix)) {
+          diagnose(
+            "warning",
+            "unknown-command",
+            `Unsupported command ${cmd.substring(0, 3)}`
+          );
         }
         break;
       }
     }
+    if (prefix[0] === "A" || prefix === "CF") {
+      fontCommand = commands[i];
+    }
+    if (FIELD_COMMANDS.test(prefix) || currentElements.length > created) {
+      fieldCommands.push(commands[i]);
+    }
+    // New elements remember the commands they were created from, which
+    // completes their field
+    if (currentElements.length > created) {
+      for (let n = created; n < currentElements.length; n++) {
+        const element = currentElements[n];
+        const font = element.type === "text" ? fontCommand : null;
+        element.source = elementSource(source, fieldCommands, font);
+      }
+      fieldCommands = [];
+    } else if (prefix === "FS") {
+      fieldCommands = [];
+    }
   }
   // Finalise: if commands ended without ^XZ, push the last label
   if (currentElements.length > 0) {
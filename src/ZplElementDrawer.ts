@@ -1,30 +1,36 @@
 import * as PImage from "pureimage";
 
-import { ensureFont } from "./font";
-import { getDrawer } from "./drawerFactory";
-import stream from "stream";
+import type {
+  Bitmap,
+  DrawOptions,
+  PdfPage,
+  PreparedElement,
+  ZplElement,
+} from "./types.js";
+
+import type BaseDrawer from "./drawers/BaseDrawer.js";
+
+import PdfContext from "./PdfContext.js";
+import PdfDocument from "./PdfDocument.js";
+import SvgContext from "./SvgContext.js";
+import type VectorContext from "./VectorContext.js";
+import { encodePng, scaleBitmap, transformBitmap } from "./utils.js";
+import { ensureFont } from "./font.js";
+import { getDrawer } from "./drawerFactory.js";
+import { report } from "./diagnostics.js";
 
 /**
- * Computes and draws a collection of ZPL elements on a canvas.  The
- * renderer delegates drawing of individual element types to specific
- * drawer classes.  All elements are first prepared (to compute
- * dimensions and load resources) and then rendered onto a canvas
- * large enough to contain the union of their bounding boxes.  A
- * small margin is added around the content to prevent clipping.
+ * Computes the canvas size needed to hold the union of the bounding
+ * boxes of the supplied (already prepared) elements.  A small margin
+ * is added around the content to prevent clipping.
  *
- * @param {Array<object>} elements List of element definitions produced by the analyser
- * @returns {Promise<Buffer>} A PNG buffer of the rendered label
+ * @param {PreparedElement[]} elements Prepared element definitions
+ * @returns {{width: number, height: number}} Content extents in dots
  */
-export async function drawElements(elements) {
-  // Load the shared font (needed for measurement)
-  await ensureFont();
-  // Prepare all elements (compute sizes, generate images)
-  for (const el of elements) {
-    const drawer = getDrawer(el.type);
-    if (drawer && typeof drawer.prepare === "function") {
-      await drawer.prepare(el);
-    }
-  }
+function measureContent(elements: PreparedElement[]): {
+  width: number;
+  height: number;
+} {
   // Determine extents considering orientation
   let maxX = 0;
   let maxY = 0;
@@ -34,10 +40,10 @@ export async function drawElements(elements) {
     let height = el.renderHeight;
     if (!width || !height) {
       // Some elements might not set render dimensions; default to 0
-      width = el.width || 0;
-      height = el.height || 0;
+      width = ("width" in el && el.width) || 0;
+      height = ("height" in el && el.height) || 0;
     }
-    const orient = el.orientation || "N";
+    const orient = ("orientation" in el && el.orientation) || "N";
     let rotW = width;
     let rotH = height;
     if (orient === "R" || orient === "B") {
@@ -53,32 +59,299 @@ export async function drawElements(elements) {
     if (ey > maxY) maxY = ey;
   }
   const margin = 4;
-  const canvasWidth = Math.ceil(maxX + margin);
-  const canvasHeight = Math.ceil(maxY + margin);
+  return {
+    width: Math.ceil(maxX + margin),
+    height: Math.ceil(maxY + margin),
+  };
+}
+
+/**
+ * Prepares all elements (computing sizes and loading resources) and
+ * resolves the size of the output canvas.  Shared by every output
+ * backend.  The drawers work on copies of the elements, which hold
+ * their render state, so that the caller's elements stay as the
+ * analyser produced them.  Elements that fail to prepare are reported
+ * as diagnostics of severity 'error' (see diagnostics.ts).
+ *
+ * @param {ZplElement[]} elements List of element definitions produced by the analyser
+ * @param {DrawOptions} options Label size in dots and the diagnostics options
+ * @returns {Promise<{width: number, height: number, prepared: PreparedElement[]}>}
+ *   Canvas size in dots and the prepared elements
+ */
+async function prepareElements(
+  elements: ZplElement[],
+  options: DrawOptions
+): Promise<{ width: number; height: number; prepared: PreparedElement[] }> {
+  // Load the shared font (needed for measurement)
+  await ensureFont();
+  // Prepare all elements (compute sizes, generate images)
+  const prepared: PreparedElement[] = elements.map((element) => ({
+    ...element,
+  }));
+  for (const el of prepared) {
+    const drawer = getDrawer(el.type);
+    if (drawer && typeof drawer.prepare === "function") {
+      await drawer.prepare(el, options);
+    }
+    if (el.failure) {
+      const { code, message } = el.failure;
+      report(options, el.source || null, "error", code, message);
+    }
+  }
+  const size = (value?: number) => (value && value > 0 ? Math.ceil(value) : 0);
+  let width = size(options.width);
+  let height = size(options.height);
+  if (!width || !height) {
+    const content = measureContent(prepared);
+    width = width || content.width;
+    height = height || content.height;
+  }
   // Avoid zero dimension canvas
-  const img = PImage.make(
-    canvasWidth > 0 ? canvasWidth : 1,
-    canvasHeight > 0 ? canvasHeight : 1
-  );
+  return { width: Math.max(1, width), height: Math.max(1, height), prepared };
+}
+
+/**
+ * Returns the transform that places the finished label as the printer
+ * would: the label shift (^LS) moves it left, the label top (^LT)
+ * down, mirror image (^PM) flips it horizontally and print orientation
+ * ^POI turns it upside down.  Returns null when the label stays as
+ * drawn.
+ *
+ * @param {number} width Canvas width in dots
+ * @param {number} height Canvas height in dots
+ * @param {{printOrientation?: string, mirror?: boolean, labelShift?: number, labelTop?: number}} options
+ * @returns {number[]|null} Transform in [a, b, c, d, e, f] form
+ */
+function placementMatrix(
+  width: number,
+  height: number,
+  options: DrawOptions
+): number[] | null {
+  const invert = options.printOrientation === "I";
+  const mirror = !!options.mirror;
+  const dx = -(options.labelShift || 0);
+  const dy = options.labelTop || 0;
+  if (!invert && !mirror && dx === 0 && dy === 0) {
+    return null;
+  }
+  // Flipping horizontally twice (mirror and inversion) cancels out
+  const flipX = invert !== mirror;
+  const a = flipX ? -1 : 1;
+  const d = invert ? -1 : 1;
+  return [a, 0, 0, d, flipX ? width - dx : dx, invert ? height - dy : dy];
+}
+
+/**
+ * Draws a reversed element (^FR, ^LR).  The element is drawn onto a
+ * transparent scratch layer and every dot it inks inverts the pixel
+ * underneath on the label, like the XOR of a printer's dot buffer.
+ *
+ * @param {Bitmap} img Label bitmap
+ * @param {Bitmap} layer Scratch bitmap of the same size
+ * @param {BaseDrawer} drawer Drawer for the element
+ * @param {PreparedElement} element Prepared element definition
+ */
+function drawReversed(
+  img: PImage.Bitmap,
+  layer: PImage.Bitmap,
+  drawer: BaseDrawer,
+  element: PreparedElement
+) {
+  layer.data.fill(0);
+  drawer.draw(layer.getContext("2d"), element);
+  const src = layer.data;
+  const dst = img.data;
+  for (let i = 0; i < src.length; i += 4) {
+    const inked =
+      src[i + 3] >= 128 &&
+      0.299 * src[i] + 0.587 * src[i + 1] + 0.114 * src[i + 2] < 128;
+    if (inked) {
+      dst[i] = 255 - dst[i];
+      dst[i + 1] = 255 - dst[i + 1];
+      dst[i + 2] = 255 - dst[i + 2];
+    }
+  }
+}
+
+/**
+ * Computes and draws a collection of ZPL elements on a canvas.  The
+ * renderer delegates drawing of individual element types to specific
+ * drawer classes.  All elements are first prepared (to compute
+ * dimensions and load resources) and then rendered onto the canvas.
+ *
+ * The canvas takes the label size given in `options.width` and
+ * `options.height` (in dots), which callers normally take from the
+ * label's ^PW and ^LL values.  Anything falling outside of it is
+ * clipped.  When a dimension is not supplied the canvas falls back to
+ * the extents of the content in that direction.
+ *
+ * `options.scale` resizes the finished image, e.g. 96 / 300 to preview
+ * a 300 dpi label at screen size.
+ *
+ * `options.printOrientation`, `options.mirror`, `options.labelShift`
+ * and `options.labelTop` carry the label's ^PO, ^PM, ^LS and ^LT
+ * settings, which move the finished label as a whole.
+ *
+ * Elements that cannot be drawn are reported to the
+ * `options.diagnostics` array, or throw with `options.strict` (see
+ * diagnostics.ts).
+ *
+ * @param {ZplElement[]} elements List of element definitions produced by the analyser
+ * @param {DrawOptions} [options] Label size in dots, output scale and
+ *   label placement
+ * @returns {Promise<Buffer>} A PNG buffer of the rendered label
+ */
+export async function drawElements(
+  elements: ZplElement[],
+  options: DrawOptions = {}
+): Promise<Buffer> {
+  const img = await renderBitmap(elements, options);
+  return encodePng(img);
+}
+
+/**
+ * Same as drawElements() but returns the bitmap instead of encoding
+ * it.  Useful when several labels are combined into a single output
+ * before encoding.  The bitmap is a pureimage bitmap, declared as the
+ * plain RGBA Bitmap so that the published types do not depend on
+ * pureimage's.
+ *
+ * @param {ZplElement[]} elements List of element definitions produced by the analyser
+ * @param {DrawOptions} [options] Label size in dots, output scale and
+ *   label placement
+ * @returns {Promise<Bitmap>} Bitmap of the rendered label
+ */
+export async function drawElementsToBitmap(
+  elements: ZplElement[],
+  options: DrawOptions = {}
+): Promise<Bitmap> {
+  return renderBitmap(elements, options);
+}
+
+/**
+ * Draws the elements into a new pureimage bitmap, for drawElements()
+ * and drawElementsToBitmap().
+ */
+async function renderBitmap(
+  elements: ZplElement[],
+  options: DrawOptions
+): Promise<PImage.Bitmap> {
+  const { width, height, prepared } = await prepareElements(elements, options);
+  const img = PImage.make(width, height);
   const ctx = img.getContext("2d");
   // Fill background white
   ctx.fillStyle = "white";
-  ctx.fillRect(0, 0, canvasWidth, canvasHeight);
+  ctx.fillRect(0, 0, width, height);
+  // Scratch layer for reversed elements, created on first use
+  let layer: PImage.Bitmap | null = null;
   // Draw each element using its drawer
-  for (const el of elements) {
+  for (const el of prepared) {
     const drawer = getDrawer(el.type);
-    if (drawer && typeof drawer.draw === "function") {
+    if (!drawer || typeof drawer.draw !== "function") {
+      continue;
+    }
+    if (el.reverse) {
+      layer = layer || PImage.make(width, height);
+      drawReversed(img, layer, drawer, el);
+    } else {
       drawer.draw(ctx, el);
     }
   }
-  // Encode to PNG
-  const chunks = [];
-  const writable = new stream.Writable({
-    write(chunk, encoding, callback) {
-      chunks.push(Buffer.from(chunk));
-      callback();
-    },
+  const placement = placementMatrix(width, height, options);
+  const placed = placement ? transformBitmap(img, placement) : img;
+  return scaleBitmap(placed, options.scale ?? 1);
+}
+
+/**
+ * Draws prepared elements onto a vector context.  Every element is
+ * announced to the context with beginGroup()/endGroup() and barcodes
+ * are drawn with bitmapsAsRects enabled so that bars and modules are
+ * emitted as rectangles.  Reversed elements are drawn with the
+ * context's reverse flag set.  The label placement (see
+ * placementMatrix()) becomes the base transform of the context.
+ */
+function drawVector(
+  ctx: VectorContext,
+  elements: PreparedElement[],
+  options: DrawOptions
+) {
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, ctx.width, ctx.height);
+  const placement = placementMatrix(ctx.width, ctx.height, options);
+  if (placement) {
+    ctx.matrix = placement;
+  }
+  elements.forEach((el, index) => {
+    const drawer = getDrawer(el.type);
+    if (!drawer || typeof drawer.draw !== "function") {
+      return;
+    }
+    ctx.reverse = !!el.reverse;
+    ctx.beginGroup({ "data-zpl-type": el.type, "data-zpl-index": index });
+    ctx.bitmapsAsRects = el.type === "barcode";
+    drawer.draw(ctx, el);
+    ctx.bitmapsAsRects = false;
+    ctx.endGroup();
+    ctx.reverse = false;
   });
-  await PImage.encodePNGToStream(img, writable);
-  return Buffer.concat(chunks);
+}
+
+/**
+ * Renders the elements as an SVG document instead of a bitmap.  The
+ * drawers run unchanged against an SvgContext, so the output matches
+ * the PNG renderer geometrically.  Every element is wrapped in its own
+ * <g> carrying `data-zpl-type` and `data-zpl-index` attributes so that
+ * it can be located in the DOM.  Barcodes are emitted as crisp
+ * rectangles and images as embedded PNG data URIs.  `options.scale`
+ * changes the displayed size of the document; the coordinates inside
+ * stay in dots.
+ *
+ * @param {ZplElement[]} elements List of element definitions produced by the analyser
+ * @param {DrawOptions} [options] Label size in dots, output scale and
+ *   label placement
+ * @returns {Promise<string>} SVG markup of the rendered label
+ */
+export async function drawElementsToSvg(
+  elements: ZplElement[],
+  options: DrawOptions = {}
+): Promise<string> {
+  const { width, height, prepared } = await prepareElements(elements, options);
+  const ctx = new SvgContext(width, height);
+  if (options.scale && options.scale > 0) {
+    ctx.outputScale = options.scale;
+  }
+  drawVector(ctx, prepared, options);
+  return ctx.toString();
+}
+
+/**
+ * Renders several labels into a single PDF document with one page per
+ * label.  Each page is sized from the label dimensions in dots and the
+ * printer resolution of the page, or `options.dpi` (default 203) when
+ * the page does not name one.  The PDF always has the physical label
+ * size, so no output scale applies.  Text is written as PDF text in
+ * the embedded font, barcodes as vector rectangles and images as image
+ * XObjects.
+ *
+ * @param {PdfPage[]} pages Elements, label size in dots, printer
+ *   resolution and label placement of each page
+ * @param {{dpi?: number}} [options] Output options
+ * @returns {Promise<Buffer>} The PDF document
+ */
+export async function drawElementsToPdf(
+  pages: PdfPage[],
+  options: { dpi?: number } = {}
+): Promise<Buffer> {
+  const doc = new PdfDocument();
+  for (const page of pages) {
+    const dpi = page.dpi || options.dpi || 203;
+    const { width, height, prepared } = await prepareElements(page.elements, {
+      ...page,
+      dpi,
+    });
+    const ctx = new PdfContext(width, height, doc, dpi);
+    drawVector(ctx, prepared, page);
+    ctx.finishPage();
+  }
+  return doc.toBuffer();
 }
@@ -0,0 +1,435 @@
+/*
+ * Code 128 encoding for ^BC.  Field data is turned into symbol
+ * characters according to the mode of the barcode: in mode N the data
+ * selects subsets and function characters itself through invocation
+ * codes (">:", ">5", ">8", ...), mode A chooses the subsets
+ * automatically, and modes U and D build GS1-128 (UCC/EAN-128) symbols
+ * with FNC1 and the check digits of the application identifiers.
+ */
+
+// Bar and space widths, in modules, of symbol characters 0-106
+const PATTERNS = (
+  "212222 222122 222221 121223 121322 131222 122213 122312 132212 221213 " +
+  "221312 231212 112232 122132 122231 113222 123122 123221 223211 221132 " +
+  "221231 213212 223112 312131 311222 321122 321221 312212 322112 322211 " +
+  "212123 212321 232121 111323 131123 131321 112313 132113 132311 211313 " +
+  "231113 231311 112133 112331 132131 113123 113321 133121 313121 211331 " +
+  "231131 213113 213311 213131 311123 311321 331121 312113 312311 332111 " +
+  "314111 221411 431111 111224 111422 121124 121421 141122 141221 112214 " +
+  "112412 122114 122411 142112 142211 241211 221114 413111 241112 134111 " +
+  "111242 121142 121241 114212 124112 124211 411212 421112 421211 212141 " +
+  "214121 412121 111143 111341 131141 114113 114311 411113 411311 113141 " +
+  "114131 311141 411131 211412 211214 211232 2331112"
+).split(" ");
+
+// Subsets of the character set, and data characters or FNC1 (as the
+// number FNC1) waiting to be encoded
+type Subset = "A" | "B" | "C";
+type Token = string | number;
+
+const SHIFT = 98;
+const CODE_C = 99;
+const CODE_B = 100;
+const CODE_A = 101;
+const FNC1 = 102;
+const START: Record<Subset, number> = { A: 103, B: 104, C: 105 };
+const STOP = 106;
+
+// Symbol characters produced by the invocation codes of mode N, by the
+// character following ">".  >5, >6 and >7 also switch subsets, see
+// encodeInvocations().
+const INVOCATIONS: Record<string, number> = {
+  "<": 62,
+  "0": 30,
+  "=": 94,
+  "1": 95,
+  "2": 96,
+  "3": 97,
+  "4": SHIFT,
+  "5": CODE_C,
+  "6": CODE_B,
+  "7": CODE_A,
+  "8": FNC1,
+};
+
+// Lengths of GS1 application identifiers and, for those with data of a
+// fixed length, of their data, keyed by the first two digits of the
+// identifier.  Identifiers of four digits (31nn-36nn) include the
+// decimal point indicator.  Identifiers not listed have two digits and
+// data of variable length.
+const GS1_AI_LENGTHS: Record<string, { ai: number; data?: number }> = {
+  "00": { ai: 2, data: 18 },
+  "01": { ai: 2, data: 14 },
+  "02": { ai: 2, data: 14 },
+  "11": { ai: 2, data: 6 },
+  "12": { ai: 2, data: 6 },
+  "13": { ai: 2, data: 6 },
+  "15": { ai: 2, data: 6 },
+  "16": { ai: 2, data: 6 },
+  "17": { ai: 2, data: 6 },
+  "20": { ai: 2, data: 2 },
+  "31": { ai: 4, data: 6 },
+  "32": { ai: 4, data: 6 },
+  "33": { ai: 4, data: 6 },
+  "34": { ai: 4, data: 6 },
+  "35": { ai: 4, data: 6 },
+  "36": { ai: 4, data: 6 },
+  "39": { ai: 4 },
+  "40": { ai: 3 },
+  "41": { ai: 3, data: 13 },
+  "42": { ai: 3 },
+  "43": { ai: 4 },
+  "70": { ai: 4 },
+  "71": { ai: 3 },
+  "72": { ai: 4 },
+  "80": { ai: 4 },
+  "81": { ai: 4 },
+  "82": { ai: 4 },
+};
+
+// Application identifiers whose last digit is a mod 10 check digit
+const GS1_CHECKED = /^(00|01|02|41[0-7])$/;
+
+/**
+ * Computes the GS1 mod 10 check digit of a string of digits: weights
+ * of 3 and 1 alternate from the right-most digit.
+ *
+ * @param {string} digits Digits to check
+ * @returns {string} The check digit
+ */
+export function mod10CheckDigit(digits: string): string {
+  let sum = 0;
+  const values = String(digits).replace(/\D/g, "");
+  for (let i = 0; i < values.length; i++) {
+    const weight = (values.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(values[i]) * weight;
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Returns the value of a character in subset A or B, or -1 when the
+ * subset cannot represent it.
+ */
+function charValue(code: number, subset: Subset): number {
+  if (subset === "A") {
+    if (code >= 32 && code < 96) return code - 32;
+    if (code >= 0 && code < 32) return code + 64;
+    return -1;
+  }
+  return code >= 32 && code < 128 ? code - 32 : -1;
+}
+
+/** Counts the digits at the start of the token list from index i. */
+function digitRun(tokens: Token[], i: number): number {
+  let n = 0;
+  while (i + n < tokens.length && /^[0-9]$/.test(String(tokens[i + n]))) {
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Chooses between subsets A and B for the characters from index i: A
+ * when a control character comes before any lower case letter.
+ */
+function textSubset(tokens: Token[], i: number): Subset {
+  for (let j = i; j < tokens.length; j++) {
+    const token = tokens[j];
+    if (typeof token !== "string") continue;
+    const code = token.charCodeAt(0) & 127;
+    if (code < 32) return "A";
+    if (code >= 96) return "B";
+  }
+  return "B";
+}
+
+/**
+ * Appends a character in subset A or B, switching to the other subset
+ * when the current one cannot represent it.  Characters 128-255 are
+ * the character 128 lower preceded by FNC4, which is the code of the
+ * subset itself (101 in A, 100 in B) and applies to that character
+ * only.
+ *
+ * @param {number[]} values Symbol characters so far
+ * @param {number} code Character code, 0-255
+ * @param {string} subset Current subset, 'A' or 'B'
+ * @returns {string} Subset after the character
+ */
+function encodeChar(values: number[], code: number, subset: Subset): Subset {
+  const low = code & 127;
+  if (charValue(low, subset) < 0) {
+    subset = subset === "A" ? "B" : "A";
+    values.push(subset === "A" ? CODE_A : CODE_B);
+  }
+  if (code > 127) {
+    values.push(subset === "A" ? CODE_A : CODE_B);
+  }
+  values.push(charValue(low, subset));
+  return subset;
+}
+
+/**
+ * Encodes characters and FNC1 markers (the number FNC1) with automatic
+ * subset selection: subset C for runs of at least four digits at the
+ * start or end of the data and six in between, A or B for the rest.
+ * An odd run of digits leaves its first digit in the current subset.
+ *
+ * @param {Array<string|number>} tokens Single characters and FNC1
+ * @returns {number[]} Symbol characters from the start character on
+ */
+function encodeAuto(tokens: Token[]): number[] {
+  const values: number[] = [];
+  const first = tokens.findIndex((t) => t !== FNC1);
+  const startRun = first < 0 ? 0 : digitRun(tokens, first);
+  let subset: Subset;
+  const allDigits = tokens.every(
+    (t) => t === FNC1 || /^[0-9]$/.test(String(t))
+  );
+  if (startRun >= 4 || (allDigits && startRun >= 2 && startRun % 2 === 0)) {
+    subset = "C";
+  } else {
+    subset = textSubset(tokens, 0);
+  }
+  values.push(START[subset]);
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (typeof token !== "string") {
+      values.push(FNC1);
+      i++;
+      continue;
+    }
+    const run = digitRun(tokens, i);
+    if (subset === "C") {
+      if (run >= 2) {
+        values.push(Number(`${tokens[i]}${tokens[i + 1]}`));
+        i += 2;
+        continue;
+      }
+      subset = textSubset(tokens, i);
+      values.push(subset === "A" ? CODE_A : CODE_B);
+      continue;
+    }
+    const atEnd = i + run === tokens.length;
+    if (run >= 6 || (run >= 4 && atEnd)) {
+      if (run % 2 === 1) {
+        values.push(charValue(token.charCodeAt(0), subset));
+        i++;
+      }
+      subset = "C";
+      values.push(CODE_C);
+      continue;
+    }
+    subset = encodeChar(values, token.charCodeAt(0), subset);
+    i++;
+  }
+  return values;
+}
+
+/**
+ * Encodes mode N data, where the data selects the start subset with
+ * >9, >: or >; (subset B when none is given) and invokes function
+ * characters and subset changes with the codes listed in INVOCATIONS.
+ * Characters the current subset cannot represent switch to the subset
+ * that can.
+ *
+ * @returns {{values: number[], text: string}} Symbol characters and the
+ *   printed characters
+ */
+function encodeInvocations(data: string): { values: number[]; text: string } {
+  const starts: Record<string, Subset> = { "9": "A", ":": "B", ";": "C" };
+  let subset: Subset = "B";
+  let i = 0;
+  if (data[0] === ">" && starts[data[1]]) {
+    subset = starts[data[1]];
+    i = 2;
+  }
+  const values = [START[subset]];
+  let text = "";
+  while (i < data.length) {
+    const ch = data[i];
+    const invoked = ch === ">" ? INVOCATIONS[data[i + 1]] : undefined;
+    if (invoked !== undefined) {
+      i += 2;
+      values.push(invoked);
+      if (invoked === CODE_C) {
+        subset = "C";
+      } else if (invoked === CODE_B && subset !== "B") {
+        subset = "B";
+      } else if (invoked === CODE_A && subset !== "A") {
+        subset = "A";
+      } else if (invoked < 95 && subset !== "C") {
+        text += String.fromCharCode(invoked + 32);
+      }
+      continue;
+    }
+    if (subset === "C") {
+      if (/^[0-9]{2}$/.test(data.substring(i, i + 2))) {
+        values.push(Number(data.substring(i, i + 2)));
+        text += data.substring(i, i + 2);
+        i += 2;
+        continue;
+      }
+      subset = textSubset([...data.substring(i)], 0);
+      values.push(subset === "A" ? CODE_A : CODE_B);
+      continue;
+    }
+    subset = encodeChar(values, ch.charCodeAt(0), subset);
+    text += ch;
+    i++;
+  }
+  return { values, text };
+}
+
+/**
+ * Splits GS1 data into application identifiers and their data.  The
+ * identifiers are either written in parentheses, "(00)1234...", or
+ * follow each other directly, in which case identifiers of variable
+ * length must be ended with >8.  Spaces are ignored.  A missing check
+ * digit of an identifier that carries one is calculated.
+ *
+ * @returns {Array<{ai: string, data: string, fixed: boolean}>}
+ */
+function parseGs1(
+  data: string
+): Array<{ ai: string; data: string; fixed: boolean }> {
+  const elements: Array<{ ai: string; data: string; fixed: boolean }> = [];
+  const clean = data.replace(/ /g, "");
+  const add = (ai: string, value: string) => {
+    const lengths = GS1_AI_LENGTHS[ai.substring(0, 2)];
+    const fixed = lengths && lengths.data;
+    let field = value;
+    if (fixed && GS1_CHECKED.test(ai) && field.length === fixed - 1) {
+      field += mod10CheckDigit(field);
+    }
+    elements.push({ ai, data: field, fixed: !!fixed });
+  };
+  if (clean.includes("(")) {
+    const pattern = /\((\d+)\)([^(]*)/g;
+    let match;
+    while ((match = pattern.exec(clean))) {
+      add(match[1], match[2].replace(/>8/g, ""));
+    }
+    return elements;
+  }
+  for (const segment of clean.split(">8")) {
+    let rest = segment;
+    while (rest.length > 0) {
+      const lengths = GS1_AI_LENGTHS[rest.substring(0, 2)] || { ai: 2 };
+      const ai = rest.substring(0, lengths.ai);
+      if (!lengths.data) {
+        // Variable length: the data runs to the end of the segment
+        add(ai, rest.substring(lengths.ai));
+        break;
+      }
+      let value = rest.substring(lengths.ai, lengths.ai + lengths.data);
+      // Let a short final element pick up its check digit
+      const short = value.length < lengths.data;
+      if (short && rest.length > ai.length + value.length) {
+        value = rest.substring(lengths.ai);
+      }
+      add(ai, value);
+      rest = rest.substring(ai.length + value.length);
+    }
+  }
+  return elements;
+}
+
+/**
+ * Encodes ^BC field data as Code 128 symbol characters and returns the
+ * human readable interpretation line the printer prints with it.
+ *
+ *  - Mode N (normal): the data may contain invocation codes; see
+ *    encodeInvocations().  With `checkDigit` a mod 10 check digit of
+ *    the digits in the data is appended.
+ *  - Mode U (UCC case mode): the data is cut or padded with zeros to
+ *    19 digits and a mod 10 check digit makes it a 20 digit SSCC,
+ *    encoded in subset C after FNC1 and printed as "(00)...".
+ *  - Mode A (automatic): the subsets are chosen automatically; >8
+ *    inserts FNC1.
+ *  - Mode D (UCC/EAN mode): the data holds GS1 application
+ *    identifiers.  FNC1 starts the symbol and ends every element of
+ *    variable length that is followed by another element, check digits
+ *    are added where missing, and the identifiers print in
+ *    parentheses.
+ *
+ * The result holds the start character, the data, the mod 103 symbol
+ * check character and the stop character.  Characters 128-255 are
+ * encoded with FNC4; data with any character above that throws.
+ *
+ * @param {string} data Field data
+ * @param {string} [mode] One of 'N', 'U', 'A' or 'D'
+ * @param {boolean} [checkDigit] Append a mod 10 check digit (modes N and A)
+ * @returns {{codewords: number[], text: string}}
+ */
+export function encodeCode128(
+  data: string,
+  mode = "N",
+  checkDigit = false
+): { codewords: number[]; text: string } {
+  let value = String(data || "");
+  const invalid = mode === "U" ? undefined : /[^\u0000-\u00ff]/u.exec(value);
+  if (invalid) {
+    const code = invalid[0].codePointAt(0)!.toString(16).toUpperCase();
+    throw new Error(`Code 128 cannot encode U+${code.padStart(4, "0")}`);
+  }
+  let values: number[];
+  let text: string;
+  if (mode === "U") {
+    const digits = value.replace(/\D/g, "").substring(0, 19).padEnd(19, "0");
+    const sscc = digits + mod10CheckDigit(digits);
+    values = encodeAuto([FNC1, ...sscc]);
+    text = `(${sscc.substring(0, 2)})${sscc.substring(2)}`;
+  } else if (mode === "D") {
+    const elements = parseGs1(value);
+    const tokens: Token[] = [];
+    tokens.push(FNC1);
+    elements.forEach((element, index) => {
+      tokens.push(...element.ai, ...element.data);
+      if (!element.fixed && index < elements.length - 1) {
+        tokens.push(FNC1);
+      }
+    });
+    values = encodeAuto(tokens);
+    text = elements.map((e) => `(${e.ai})${e.data}`).join("");
+  } else if (mode === "A") {
+    if (checkDigit) {
+      value += mod10CheckDigit(value);
+    }
+    const tokens: Token[] = [];
+    value.split(">8").forEach((part, index) => {
+      if (index > 0) tokens.push(FNC1);
+      tokens.push(...part);
+    });
+    values = encodeAuto(tokens);
+    text = value.replace(/>8/g, "");
+  } else {
+    if (checkDigit) {
+      value += mod10CheckDigit(value.replace(/>./g, ""));
+    }
+    ({ values, text } = encodeInvocations(value));
+  }
+  let sum = values[0];
+  for (let i = 1; i < values.length; i++) {
+    sum += values[i] * i;
+  }
+  return { codewords: [...values, sum % 103, STOP], text };
+}
+
+/**
+ * Expands symbol characters into bar and space widths in modules,
+ * starting with a bar.
+ *
+ * @param {number[]} codewords Symbol characters from encodeCode128()
+ * @returns {number[]} Alternating bar and space widths
+ */
+export function code128Widths(codewords: number[]): number[] {
+  const widths: number[] = [];
+  for (const value of codewords) {
+    for (const w of PATTERNS[value]) {
+      widths.push(Number(w));
+    }
+  }
+  return widths;
+}
@@ -0,0 +1,87 @@
+/*
+ * Diagnostics of the analyser and the renderer.  Like a printer, both
+ * skip over what they cannot interpret: unknown commands are ignored
+ * and a field that fails to draw is left blank.  Every such problem is
+ * reported as a diagnostic so that callers can tell a blank field from
+ * an intended one:
+ *
+ *   {severity, code, message, command, offset, label}
+ *
+ * `severity` is 'warning' or 'error', `command` the text of the
+ * command at fault, `offset` its character offset in the ZPL document
+ * (null for commands that are not part of it, such as the recall of
+ * options.recall) and `label` the index of the label (^XA...^XZ) it
+ * belongs to, shared by the copies of options.expandQuantity.
+ * `code` is one of:
+ *
+ *   unknown-command       command or barcode type not supported
+ *                         (warning)
+ *   unsupported-option    parameter of a known command that is not
+ *                         supported, such as QR Code Model 1, which is
+ *                         printed as Model 2 (warning)
+ *   missing-format        ^XF recalls a format that was never stored
+ *   recursive-format      ^XF recalls a format that is being expanded,
+ *                         directly or through other formats
+ *   missing-graphic       ^XG or ^IM recalls a graphic that was never
+ *                         downloaded
+ *   invalid-graphic       graphic data that cannot be decoded
+ *   invalid-font          downloaded font data that cannot be loaded
+ *   invalid-barcode-data  field data that the barcode cannot encode
+ *   quantity-limit        ^PQ asks for more copies than are expanded
+ *                         (warning)
+ */
+
+import type { CommandSource, Diagnostic, DiagnosticCode } from "./types.js";
+
+/**
+ * Error thrown in strict mode for a diagnostic of severity 'error'.
+ * The diagnostic itself is available as `diagnostic`.
+ */
+export class ZplDiagnosticError extends Error {
+  diagnostic: Diagnostic;
+
+  constructor(diagnostic: Diagnostic) {
+    const { message, command, offset } = diagnostic;
+    const at = offset === null ? "" : ` at ${offset}`;
+    super(command === null ? message : `${message} (${command}${at})`);
+    this.name = "ZplDiagnosticError";
+    this.diagnostic = diagnostic;
+  }
+}
+
+/**
+ * Reports a diagnostic.  It is appended to `options.diagnostics` when
+ * the caller supplied an array there, and with `options.strict` an
+ * error is thrown as a ZplDiagnosticError.
+ *
+ * @param {{diagnostics?: Diagnostic[], strict?: boolean}} options Caller's options
+ * @param {CommandSource|null} source
+ *   Command the diagnostic is about, null when unknown
+ * @param {'warning'|'error'} severity Severity
+ * @param {DiagnosticCode} code Machine readable code
+ * @param {string} message Description for people
+ * @returns {Diagnostic} The diagnostic
+ */
+export function report(
+  options: { diagnostics?: Diagnostic[]; strict?: boolean } | undefined,
+  source: CommandSource | null,
+  severity: Diagnostic["severity"],
+  code: DiagnosticCode,
+  message: string
+): Diagnostic {
+  const diagnostic: Diagnostic = {
+    severity,
+    code,
+    message,
+    command: source ? source.command : null,
+    offset: source ? source.offset : null,
+    label: source ? source.label : null,
+  };
+  if (options && Array.isArray(options.diagnostics)) {
+    options.diagnostics.push(diagnostic);
+  }
+  if (options && options.strict && severity === "error") {
+    throw new ZplDiagnosticError(diagnostic);
+  }
+  return diagnostic;
+}
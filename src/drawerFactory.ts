@@ -1,9 +1,12 @@
-import BarcodeDrawer from "./drawers/BarcodeDrawer";
-import BoxDrawer from "./drawers/BoxDrawer";
-import CircleDrawer from "./drawers/CircleDrawer";
-import DiagonalLineDrawer from "./drawers/DiagonalLineDrawer";
-import ImageDrawer from "./drawers/ImageDrawer";
-import TextDrawer from "./drawers/TextDrawer";
+import BarcodeDrawer from "./drawers/BarcodeDrawer.js";
+import type BaseDrawer from "./drawers/BaseDrawer.js";
+import BoxDrawer from "./drawers/BoxDrawer.js";
+import CircleDrawer from "./drawers/CircleDrawer.js";
+import DiagonalLineDrawer from "./drawers/DiagonalLineDrawer.js";
+import EllipseDrawer from "./drawers/EllipseDrawer.js";
+import ImageDrawer from "./drawers/ImageDrawer.js";
+import SymbolDrawer from "./drawers/SymbolDrawer.js";
+import TextDrawer from "./drawers/TextDrawer.js";
 
 /**
  * Returns an instance of the appropriate drawer class for the given
@@ -14,7 +17,7 @@ import TextDrawer from "./drawers/TextDrawer";
  * @param {string} type Element type identifier
  * @returns {BaseDrawer|undefined}
  */
-export function getDrawer(type) {
+export function getDrawer(type: string): BaseDrawer | undefined {
   switch (type) {
     case "text":
       return new TextDrawer();
@@ -26,6 +29,10 @@ export function getDrawer(type) {
       return new CircleDrawer();
     case "diagonal":
       return new DiagonalLineDrawer();
+    case "ellipse":
+      return new EllipseDrawer();
+    case "symbol":
+      return new SymbolDrawer();
     case "image":
       return new ImageDrawer();
     default:
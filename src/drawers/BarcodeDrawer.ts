@@ -1,15 +1,30 @@
-import BaseDrawer from "./BaseDrawer";
-import PImage from "pureimage";
+import type {
+  BarcodeElement,
+  DrawOptions,
+  DrawingContext,
+  PreparedElement,
+} from "../types.js";
+
+import BaseDrawer from "./BaseDrawer.js";
+import * as PImage from "pureimage";
+import type { RenderOptions } from "@bwip-js/node";
 import bwipjs from "@bwip-js/node";
-import { decodePng } from "../utils";
-import { ensureFont } from "../font";
+import { code128Widths, encodeCode128, mod10CheckDigit } from "../code128.js";
+import { decodePng } from "../utils.js";
+import { parseQrData } from "../qrcode.js";
+import {
+  ensureFont,
+  getBitmapFontMatrix,
+  measureText,
+  resolveFont,
+} from "../font.js";
 
 // Code 39 patterns for each supported character.  Each entry is a
 // nine‑character string composed of 'n' (narrow) and 'w' (wide)
 // elements.  Bars are drawn on even indices and spaces on odd
 // indices.  Patterns are taken from public domain references for
 // Code 39.
-const CODE39_PATTERNS = {
+const CODE39_PATTERNS: Record<string, string> = {
   "0": "nnnwwnwnn",
   "1": "wnnwnnnnw",
   "2": "nnwwnnnnw",
@@ -56,6 +71,182 @@ const CODE39_PATTERNS = {
   "*": "nwnnwnwnn",
 };
 
+// Characters of Code 39 in the order of their Mod 43 check values
+const CODE39_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%";
+
+// Width of a wide element, in modules, in the bwip‑js encoders whose
+// wide to narrow ratio follows ^BY
+const WIDE_MODULES: Record<string, number> = {
+  interleaved2of5: 2,
+  code2of5: 3,
+  industrial2of5: 3,
+  rationalizedCodabar: 3,
+  code11: 3,
+};
+
+/**
+ * Computes the Code 11 check digits: C weights the characters 1 to 10
+ * from the right, K weights them and C 1 to 9, both modulo 11 with the
+ * dash standing for 10.
+ *
+ * @param {string} data Digits and dashes
+ * @param {number} count Number of check digits (1 or 2)
+ * @returns {string} The data followed by its check digits
+ */
+function code11WithCheck(data: string, count: number): string {
+  const value = (ch: string) => (ch === "-" ? 10 : Number(ch));
+  const check = (text: string, maxWeight: number) => {
+    let sum = 0;
+    [...text].reverse().forEach((ch, i) => {
+      sum += value(ch) * ((i % maxWeight) + 1);
+    });
+    const digit = sum % 11;
+    return digit === 10 ? "-" : String(digit);
+  };
+  let text = String(data).replace(/[^0-9-]/g, "");
+  text += check(text, 10);
+  if (count > 1) {
+    text += check(text, 9);
+  }
+  return text;
+}
+
+/**
+ * Returns UPC-E data for bwip‑js.  Printers accept the ten digits of
+ * the manufacturer and product numbers of the UPC-A code (optionally
+ * preceded by the number system) and zero-suppress them; six to eight
+ * digits are taken as UPC-E already.
+ *
+ * @param {string} data Field data
+ * @returns {string} Number system and six UPC-E digits, or the digits as given
+ */
+function upceData(data: string): string {
+  const digits = String(data).replace(/\D/g, "");
+  if (digits.length <= 8) {
+    return digits.length === 6 ? `0${digits}` : digits;
+  }
+  const system = digits.length >= 11 ? digits[0] : "0";
+  const body = digits.length >= 11 ? digits.substring(1) : digits;
+  const m = body.substring(0, 5);
+  const p = body.substring(5, 10);
+  let short = null;
+  if (/^[012]00$/.test(m.substring(2)) && p.startsWith("00")) {
+    short = m.substring(0, 2) + p.substring(2) + m[2];
+  } else if (m.endsWith("00") && p.startsWith("000")) {
+    short = m.substring(0, 3) + p.substring(3) + "3";
+  } else if (m.endsWith("0") && p.startsWith("0000")) {
+    short = m.substring(0, 4) + p[4] + "4";
+  } else if (p.startsWith("0000") && p[4] >= "5") {
+    short = m + p[4];
+  }
+  return short ? system + short : digits;
+}
+
+// Symbologies drawn at their own size, scaled by a magnification
+// rather than stretched to the bar code height
+const FIXED_SIZE_CODES = [
+  "qrcode",
+  "datamatrix",
+  "azteccode",
+  "aztecrune",
+  "maxicode",
+  "micropdf417",
+  "codablockf",
+];
+
+// Dots between the field origin and the top of a QR code, for elements
+// that do not give their own (see the ^BQ branch of analyze())
+const QR_TOP_MARGIN = 10;
+
+/**
+ * Tells whether a symbology keeps its own size (see FIXED_SIZE_CODES).
+ * GS1 DataBar and the composites have fixed heights as well.
+ */
+function isFixedSize(codeType: string): boolean {
+  return (
+    FIXED_SIZE_CODES.includes(codeType) ||
+    codeType.startsWith("databar") ||
+    codeType.endsWith("composite")
+  );
+}
+
+/**
+ * Returns GS1 element strings for bwip‑js.  Data that already holds
+ * bracketed application identifiers is used as it is; plain digits are
+ * taken as a GTIN, completed with its check digit when it has 13 digits
+ * or fewer.
+ *
+ * @param {string} data Field data
+ * @returns {string} Element strings such as "(01)00012345678905"
+ */
+function gs1Data(data: string): string {
+  const text = String(data);
+  if (text.includes("(")) {
+    return text;
+  }
+  const digits = text.replace(/\D/g, "");
+  if (digits.length >= 14) {
+    return `(01)${digits.substring(0, 14)}`;
+  }
+  const gtin = digits.padStart(13, "0");
+  return `(01)${gtin}${mod10CheckDigit(gtin)}`;
+}
+
+/**
+ * Returns the bwip‑js symbology and data of a GS1 DataBar or composite
+ * field (^BR).  A "|" separates the linear data from the 2D composite
+ * component; without one the linear symbology is drawn on its own.
+ *
+ * @returns {{bcid: string, text: string}}
+ */
+function databarData(
+  codeType: string,
+  data: string
+): { bcid: string; text: string } {
+  const [linear, ...rest] = String(data).split("|");
+  const base = codeType.replace(/composite$/, "");
+  const gs1 = base.startsWith("databar") || base === "gs1-128";
+  const primary = gs1 ? gs1Data(linear) : linear;
+  if (rest.length === 0) {
+    return { bcid: base, text: primary };
+  }
+  return { bcid: `${base}composite`, text: `${primary}|${rest.join("|")}` };
+}
+
+/**
+ * Returns MaxiCode data for bwip‑js.  In modes 2 and 3 the field starts
+ * with the primary message: a three-digit class of service, a
+ * three-digit country code and the postal code (nine digits in mode 2,
+ * six characters in mode 3).  bwip‑js expects the postal code, country
+ * and class as the first fields of the structured carrier message,
+ * after the "[)>RS01GSyy" header of a UPS message when there is one.
+ *
+ * @param {string} data Field data
+ * @param {number} mode MaxiCode mode (2 to 6)
+ * @returns {string} Data to encode
+ */
+function maxicodeData(data: string, mode?: string | number): string {
+  const text = String(data);
+  if (mode !== 2 && mode !== 3) {
+    return text;
+  }
+  const service = text.substring(0, 3);
+  const country = text.substring(3, 6);
+  let postal;
+  let secondary;
+  if (mode === 2) {
+    postal = /^\d*/.exec(text.substring(6, 15))![0];
+    secondary = text.substring(6 + postal.length);
+  } else {
+    postal = text.substring(6, 12).trimEnd();
+    secondary = text.substring(12);
+  }
+  const header = /^\[\)>\x1e01\x1d\d\d/.exec(secondary);
+  const prefix = header ? header[0] : "";
+  const rest = secondary.substring(prefix.length);
+  return `${prefix}${postal}\x1d${country}\x1d${service}\x1d${rest}`;
+}
+
 /**
  * Generate a Code 39 barcode image using pureimage instead of bwip‑js.  ZPL
  * specifies a narrow module width and a ratio (wide/narrow).  The input
@@ -65,10 +256,12 @@ const CODE39_PATTERNS = {
  * modules is added to the left and right.  A human‑readable line is
  * rendered beneath (or above) the bars if requested.
  *
- * @param {object} element
- * @returns {Promise<object>} PImage image object containing the barcode
+ * @param {BarcodeElement} element
+ * @returns {Promise<PImage.Bitmap>} PImage image object containing the barcode
  */
-async function generateCode39Image(element) {
+async function generateCode39Image(
+  element: BarcodeElement
+): Promise<PImage.Bitmap> {
   await ensureFont();
   const narrow = element.moduleWidth || 2;
   const ratio = element.ratio || 2; // default narrow to wide ratio
@@ -76,14 +269,29 @@ async function generateCode39Image(element) {
   const text = element.text || "";
   const printInterp = element.printInterpretation;
   const printAbove = element.printAbove;
-  // Encode string with start/stop delimiters.  Convert to uppercase as Code 39
-  // defines patterns for uppercase letters only.  Unsupported characters are
-  // replaced with a dash as a fallback.
+  // Encode string with start/stop delimiters.  Convert to uppercase as Code 39
+  // defines patterns for uppercase letters only.  Other characters cannot
+  // be encoded.
+  const invalid = [...text.toString()].find(
+    (ch) => !CODE39_CHARSET.includes(ch.toUpperCase())
+  );
+  if (invalid) {
+    const code = invalid.codePointAt(0)!.toString(16).toUpperCase();
+    throw new Error(`Code 39 cannot encode U+${code.padStart(4, "0")}`);
+  }
   const data = text.toString().toUpperCase();
   let encoded = "*";
   for (const ch of data) {
     encoded += ch;
   }
+  // Optional Mod 43 check character (^B3 with check digit, LOGMARS)
+  if (element.options && element.options.checkDigit) {
+    let sum = 0;
+    for (const ch of data) {
+      sum += Math.max(0, CODE39_CHARSET.indexOf(ch));
+    }
+    encoded += CODE39_CHARSET[sum % 43];
+  }
   encoded += "*";
   // Compute total width in pixels: sum of modules for each character plus
   // inter‑character gaps and quiet zones.  Each character consists of 9
@@ -167,36 +375,184 @@ async function generateCode39Image(element) {
   return img;
 }
 
+/**
+ * Generate a Code 128 barcode image (^BC).  The field data is encoded
+ * according to the barcode's mode (see encodeCode128()), so that
+ * invocation codes and GS1 application identifiers produce the symbol
+ * characters a printer would.  Bars fill `height`; the interpretation
+ * line is printed below them, or above with `printAbove`, in font A
+ * magnified by the module width, as printers do.
+ *
+ * @param {BarcodeElement} element
+ * @param {number} dpi Printer resolution in dots per inch
+ * @returns {Promise<PImage.Bitmap>} PImage image object containing the barcode
+ */
+async function generateCode128Image(
+  element: BarcodeElement,
+  dpi: number
+): Promise<PImage.Bitmap> {
+  await ensureFont();
+  const module = element.moduleWidth || 2;
+  const barHeight = element.height || 50;
+  const options = element.options || {};
+  const { codewords, text } = encodeCode128(
+    element.text,
+    String(options.mode || "N"),
+    options.checkDigit
+  );
+  const widths = code128Widths(codewords);
+  const width = widths.reduce((sum, w) => sum + w, 0) * module;
+  const matrix = getBitmapFontMatrix("A", dpi)!;
+  const font = resolveFont(
+    "A",
+    matrix.height * module,
+    matrix.width * module,
+    dpi
+  );
+  // The line sits two modules away from the bars
+  const textHeight = element.printInterpretation
+    ? font.height + 2 * module
+    : 0;
+  const barTop = element.printAbove ? textHeight : 0;
+  const img = PImage.make(width, barHeight + textHeight);
+  const ctx = img.getContext("2d");
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, img.width, img.height);
+  ctx.fillStyle = "black";
+  let x = 0;
+  widths.forEach((w, i) => {
+    if (i % 2 === 0) {
+      ctx.fillRect(x, barTop, w * module, barHeight);
+    }
+    x += w * module;
+  });
+  if (element.printInterpretation) {
+    const textTop = element.printAbove ? 0 : barHeight + 2 * module;
+    const left = (width - measureText(text, font)) / 2;
+    ctx.font = `${font.size}pt ${font.family}`;
+    [...text].forEach((ch, i) => {
+      ctx.save();
+      ctx.translate(left + i * font.cellWidth, textTop + font.baseline);
+      ctx.scale(font.scaleX, 1);
+      ctx.fillText(ch, 0, 0);
+      ctx.restore();
+    });
+  }
+  return img;
+}
+
+/**
+ * Records data that a barcode cannot encode, leaving a blank of about
+ * the barcode's size in its place.
+ */
+function recordFailure(
+  element: PreparedElement<BarcodeElement>,
+  err: unknown
+) {
+  element.failure = {
+    code: "invalid-barcode-data",
+    message: String((err instanceof Error && err.message) || err),
+  };
+  const estWidth =
+    (element.text ? element.text.length : 1) * (element.moduleWidth || 2) * 10;
+  element.renderWidth = estWidth;
+  element.renderHeight = element.height || 50;
+  element.image = null;
+}
+
 /**
  * Drawer for barcodes.  This drawer supports a number of barcode
  * symbologies through the bwip‑js library.  The element should
  * specify `codeType` (bwip‑js barcode id), `text`, and optional
  * sizing parameters.  Orientation can be set to N,R,I,B.  Barcode
  * generation is asynchronous so prepare() must be awaited before
- * drawing.
+ * drawing.  Data that cannot be encoded is recorded in `failure` and
+ * leaves a blank of about the barcode's size.
  */
 class BarcodeDrawer extends BaseDrawer {
-  async prepare(element) {
-    // First handle Code 39 with a custom renderer.  This implementation
-    // generates bars and human text directly using pureimage, yielding
-    // more faithful results than bwip‑js.  If generation fails we
-    // silently fall back to bwip‑js below.
-    if (element.codeType === "code39") {
+  async prepare(
+    element: PreparedElement<BarcodeElement>,
+    drawOptions: DrawOptions = {}
+  ) {
+    element.failure = null;
+    // First handle Code 39 and Code 128 with custom renderers.  These
+    // generate bars and human text directly using pureimage, yielding
+    // more faithful results than bwip‑js.  Data they reject is not
+    // passed on to bwip‑js, which might encode it differently.
+    const generate =
+      element.codeType === "code39"
+        ? generateCode39Image
+        : element.codeType === "code128"
+          ? generateCode128Image
+          : null;
+    if (generate) {
       try {
-        const img = await generateCode39Image(element);
+        const img = await generate(element, drawOptions.dpi || 203);
         element.image = img;
         element.renderWidth = img.width;
         element.renderHeight = img.height;
-        element._scaleFactor = 1;
-        return;
+        // Code 39 fits its interpretation line into the height
+        if (element.codeType === "code128") {
+          element.barHeight = element.height || 50;
+        }
       } catch (err) {
-        // Fallback: proceed to bwip‑js if custom generation fails
+        recordFailure(element, err);
+      }
+      return;
+    }
+    // bwip-js takes the options of every symbology, beyond those typed
+    const opts: RenderOptions & Record<string, unknown> = {
+      bcid: element.codeType,
+      text: element.text,
+    };
+    // Start and stop characters, check digit settings and the QR code
+    // settings are applied here rather than passed to bwip‑js
+    const {
+      start,
+      stop,
+      checkDigits,
+      printCheckDigit,
+      model,
+      level,
+      mask,
+      topMargin,
+      rowHeightDots,
+      ...options
+    } = element.options || {};
+    if (element.codeType === "rationalizedCodabar") {
+      opts.text = `${start || "A"}${element.text}${stop || "A"}`;
+    } else if (element.codeType === "code11") {
+      opts.text = code11WithCheck(element.text, checkDigits || 1);
+    } else if (element.codeType === "upce") {
+      opts.text = upceData(element.text);
+    } else if (element.codeType === "qrcode") {
+      // ZPL data names the error correction level and input mode.
+      // bwip‑js has no structured append, so every symbol of a sequence
+      // is encoded on its own.
+      const qr = parseQrData(element.text, level);
+      opts.text = qr.text;
+      opts.eclevel = qr.level;
+      if (mask !== undefined) {
+        opts.mask = mask + 1;
+      }
+      if (qr.kanji) {
+        opts.suppresskanjimode = false;
       }
+    } else if (element.codeType === "maxicode") {
+      opts.text = maxicodeData(element.text, options.mode);
+    } else if (
+      element.codeType.startsWith("databar") ||
+      element.codeType.endsWith("composite")
+    ) {
+      Object.assign(opts, databarData(element.codeType, element.text));
+    }
+    if (printCheckDigit === false) {
+      // UPC: the interpretation line stops before the check digit, the
+      // last of the number system, the data and the check digit
+      const digits = opts.text.replace(/\D/g, "");
+      opts.alttext = digits.substring(0, element.codeType === "upca" ? 11 : 7);
     }
-    const opts = {};
-    opts.bcid = element.codeType;
-    opts.text = element.text;
-    if (element.codeType !== "qrcode" && element.codeType !== "datamatrix") {
+    if (!isFixedSize(element.codeType)) {
       const m = element.moduleWidth || 2;
       opts.scaleX = m;
       opts.scaleY = m;
@@ -204,21 +560,19 @@ class BarcodeDrawer extends BaseDrawer {
         const heightMm = (element.height * 25.4) / (72 * m);
         opts.height = heightMm;
       }
-      // Only Interleaved 2-of-5 needs special ratio mapping here.  Code 39 is
-      // handled above.
-      if (element.ratio && element.codeType === "interleaved2of5") {
+      // Symbologies with wide and narrow elements take the ratio from
+      // ^BY.  Code 39 is handled above.
+      const wide = WIDE_MODULES[element.codeType];
+      if (element.ratio && wide) {
         const X = element.ratio;
-        const r = (X - 1) / (2 - 1);
+        const r = (X - 1) / (wide - 1);
         opts.barratio = r;
         opts.spaceratio = r;
       }
     } else {
-      const scale = element.scale || element.moduleWidth || 2;
-      opts.scale = scale;
-    }
-    if (element.options) {
-      Object.assign(opts, element.options);
+      opts.scale = element.moduleWidth || 2;
     }
+    Object.assign(opts, options);
     if (element.printInterpretation) {
       opts.includetext = true;
       opts.textxalign = "center";
@@ -228,31 +582,14 @@ class BarcodeDrawer extends BaseDrawer {
       opts.includecheck = false;
       opts.includecheckintext = false;
     }
-    switch (element.orientation) {
-      case "R":
-        opts.rotate = "R";
-        break;
-      case "B":
-        opts.rotate = "L";
-        break;
-      case "I":
-        opts.rotate = "I";
-        break;
-      default:
-        opts.rotate = "N";
-        break;
-    }
     try {
       const buffer = await bwipjs.toBuffer(opts);
-      element.image = await decodePng(buffer);
-      if (
-        element.codeType !== "qrcode" &&
-        element.codeType !== "datamatrix" &&
-        element.height
-      ) {
-        const imgW = element.image.width;
-        const imgH = element.image.height;
-        const data = element.image.data;
+      const image = await decodePng(buffer);
+      element.image = image;
+      if (!isFixedSize(element.codeType) && element.height) {
+        const imgW = image.width;
+        const imgH = image.height;
+        const data = image.data;
         let top = -1;
         let bottom = -1;
         for (let y = 0; y < imgH; y++) {
@@ -280,46 +617,73 @@ class BarcodeDrawer extends BaseDrawer {
         }
         element.renderWidth = Math.max(1, Math.round(imgW * scale));
         element.renderHeight = Math.max(1, Math.round(imgH * scale));
-        element._scaleFactor = scale;
+        element.barHeight = element.height;
       } else {
-        element.renderWidth = element.image.width;
-        element.renderHeight = element.image.height;
-        element._scaleFactor = 1;
+        let scale = 1;
+        if (element.width) {
+          // Symbols of a fixed physical size are fitted to their width
+          scale = element.width / image.width;
+        } else if (element.codeType === "qrcode") {
+          // bwip‑js draws QR code modules two pixels wide at scale 1
+          scale = 0.5;
+        }
+        element.renderWidth = Math.round(image.width * scale);
+        element.renderHeight = Math.round(image.height * scale);
+        if (element.codeType === "codablockf" && rowHeightDots) {
+          // The rows are stretched to their height in dots; the
+          // separators above, between and below them keep one module
+          const m = element.moduleWidth || 2;
+          const rowModules = options.rowheight || 10;
+          const rows = Math.round((image.height - m) / ((rowModules + 1) * m));
+          element.renderHeight = rows * rowHeightDots + (rows + 1) * m;
+        }
+        if (element.codeType === "qrcode") {
+          // Printers leave a fixed gap above a QR code and none beside it
+          element.marginTop = topMargin ?? QR_TOP_MARGIN;
+          element.renderHeight += element.marginTop;
+        }
       }
     } catch (err) {
-      const estWidth =
-        (element.text ? element.text.length : 1) *
-        (element.moduleWidth || 2) *
-        10;
-      element.renderWidth = estWidth;
-      element.renderHeight = element.height || 50;
-      element.image = null;
+      recordFailure(element, err);
     }
   }
 
-  draw(ctx, element) {
+  draw(ctx: DrawingContext, element: PreparedElement<BarcodeElement>) {
     const { x, y, image, orientation } = element;
     if (!image) {
       return;
     }
     ctx.save();
-    const w = element.renderWidth;
-    const h = element.renderHeight;
-    if (orientation === "R") {
-      ctx.translate(x, y);
-      ctx.rotate(-Math.PI / 2);
-      ctx.drawImage(image, 0, 0, w, h);
+    const w = element.renderWidth || 0;
+    const h = element.renderHeight || 0;
+    // Height of the bars; an interpretation line lies beyond them
+    const bars = element.barHeight || h;
+    ctx.translate(x, y);
+    if (element.originType === "baseline") {
+      // ^FT places the bottom left corner of the bars, turned with the
+      // field
+      if (orientation === "R") {
+        ctx.rotate(Math.PI / 2);
+      } else if (orientation === "I") {
+        ctx.rotate(Math.PI);
+      } else if (orientation === "B") {
+        ctx.rotate(-Math.PI / 2);
+      }
+      ctx.translate(0, -bars);
+    } else if (orientation === "R") {
+      // ^FO places the top left corner of the turned bars.  R turns the
+      // symbol clockwise, leaving the interpretation line on the left.
+      ctx.translate(bars, 0);
+      ctx.rotate(Math.PI / 2);
     } else if (orientation === "I") {
-      ctx.translate(x, y);
+      ctx.translate(w, bars);
       ctx.rotate(Math.PI);
-      ctx.drawImage(image, 0, 0, w, h);
     } else if (orientation === "B") {
-      ctx.translate(x, y);
-      ctx.rotate(Math.PI / 2);
-      ctx.drawImage(image, 0, 0, w, h);
-    } else {
-      ctx.drawImage(image, x, y, w, h);
+      ctx.translate(0, w);
+      ctx.rotate(-Math.PI / 2);
     }
+    const top = element.marginTop || 0;
+    ctx.drawImage(image, 0, top, w, h - top);
     ctx.restore();
   }
 }
@@ -1,14 +1,24 @@
-import PImage from 'pureimage';
+import * as PImage from 'pureimage';
+import type {
+  DrawOptions,
+  DrawingContext,
+  PreparedElement,
+} from '../types.js';
 
 /**
  * BaseDrawer is an abstract helper that defines the interface for
  * element‑specific drawers.  Every drawer should expose two
  * asynchronous methods:
  *
- *  - prepare(element): performs any asynchronous preprocessing needed
- *    to draw the element (e.g. measuring text, generating barcode
- *    images).  It may attach `renderWidth` and `renderHeight` to
- *    the element object for later use.
+ *  - prepare(element, options): performs any asynchronous
+ *    preprocessing needed to draw the element (e.g. measuring text,
+ *    generating barcode images), given the drawing options of the
+ *    label, such as its resolution.  It may attach `renderWidth` and
+ *    `renderHeight` and other render state (see RenderState in
+ *    types.ts) to the element for later use; the renderer hands the
+ *    drawers copies of the analysed elements for this.  An element
+ *    that cannot be drawn is given a `failure` ({code, message}) instead of an
+ *    exception, so that the rest of the label still renders.
  *
  *  - draw(ctx, element): draws the element onto the provided
  *    PureImage 2D context at its x/y coordinate.  The context
@@ -21,10 +31,14 @@ class BaseDrawer {
    * The default implementation does nothing.  Subclasses may
    * override this if they need to compute sizes or load resources.
    *
-   * @param {object} element Element definition
+   * @param {PreparedElement} element Element definition
+   * @param {DrawOptions} [options] Drawing options of the label
    * @returns {Promise<void>}
    */
-  async prepare(element) {
+  async prepare(
+    element: PreparedElement,
+    options?: DrawOptions
+  ): Promise<void> {
     // no‑op by default
   }
 
@@ -32,11 +46,11 @@ class BaseDrawer {
    * Draw the element on the provided context.  This method must be
    * implemented by subclasses.
    *
-   * @param {CanvasRenderingContext2D} ctx 2D drawing context from pureimage
-   * @param {object} element Element definition with x, y and size properties
+   * @param {DrawingContext} ctx 2D drawing context from pureimage
+   * @param {PreparedElement} element Element definition with x, y and size properties
    */
   /* eslint-disable no-unused-vars */
-  draw(ctx, element) {
+  draw(ctx: DrawingContext, element: PreparedElement): void {
     throw new Error('draw() not implemented');
   }
   /* eslint-enable no-unused-vars */
@@ -1,44 +1,42 @@
-import BaseDrawer from "./BaseDrawer";
+import type { DrawingContext, BoxElement, PreparedElement } from "../types.js";
+import { fillBox, fillRoundedBox, inkColor } from "./shapes.js";
+
+import BaseDrawer from "./BaseDrawer.js";
 
 /**
- * Drawer for graphic boxes (^GB).  Boxes can be drawn either filled
- * or outlined.  The `color` property of the element determines
- * whether to fill ('F') or stroke ('B' or 'W').  The `thickness`
- * property controls the line width for outlines.
+ * Drawer for graphic boxes (^GB).  As on the printer the border lies
+ * inside the box, a box is never narrower or lower than its line
+ * thickness, and a border at least half as thick as the shorter side
+ * fills the box; ^GB380,80,80 is a solid bar.  A rounding degree of 1
+ * to 8 rounds the corners, up to semicircular ends.  Colour 'W' draws in
+ * white, erasing what lies underneath.  A reversed box (^FR) inverts
+ * what lies under its border whatever its colour.
  */
 class BoxDrawer extends BaseDrawer {
-  async prepare(element) {
-    // Nothing to do; dimensions are already provided
-    element.renderWidth = element.width;
-    element.renderHeight = element.height;
+  async prepare(element: PreparedElement<BoxElement>) {
+    const thickness = element.thickness || 1;
+    element.renderWidth = Math.max(element.width, thickness);
+    element.renderHeight = Math.max(element.height, thickness);
   }
 
-  draw(ctx, element) {
-    const { x, y, width, height, thickness, color } = element;
+  draw(ctx: DrawingContext, element: PreparedElement<BoxElement>) {
+    const { x, y, color, rounding, reverse } = element;
+    const { renderWidth = 0, renderHeight = 0 } = element;
+    const thickness = element.thickness || 1;
     ctx.save();
-    // Determine fill vs stroke.  A box is filled when:
-    // - colour code is 'F' (explicit fill), or
-    // - thickness is greater than or equal to the width or height (solid bar),
-    //   because a border thickness equal to dimension produces a solid bar.
-    // Determine if the box should be filled.  Fill when:
-    // - colour code is 'F' (explicit fill), or
-    // - thickness is greater than or equal to both the width and height (solid square)
-    // For thin horizontal/vertical lines (where thickness >= width XOR thickness >= height), we stroke.
-    const shouldFill =
-      (color && color.toUpperCase() === "F") ||
-      (thickness >= width && thickness >= height);
-    // Determine draw colours taking reverse mode into account
-    // A reverse flag may be present on the element (added by analyser)
-    const isReverse = !!element.reverse;
-    const fillColour = isReverse ? "white" : "black";
-    const strokeColour = isReverse ? "white" : "black";
-    if (shouldFill) {
-      ctx.fillStyle = fillColour;
-      ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = reverse ? "black" : inkColor(color);
+    if (rounding > 0) {
+      fillRoundedBox(
+        ctx,
+        x,
+        y,
+        renderWidth,
+        renderHeight,
+        thickness,
+        rounding
+      );
     } else {
-      ctx.lineWidth = thickness || 1;
-      ctx.strokeStyle = strokeColour;
-      ctx.strokeRect(x, y, width, height);
+      fillBox(ctx, x, y, renderWidth, renderHeight, thickness);
     }
     ctx.restore();
   }
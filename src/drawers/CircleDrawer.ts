@@ -1,36 +1,27 @@
-import BaseDrawer from "./BaseDrawer";
+import type { DrawingContext, CircleElement, PreparedElement } from "../types.js";
+import { fillEllipse, inkColor } from "./shapes.js";
+
+import BaseDrawer from "./BaseDrawer.js";
 
 /**
  * Drawer for graphic circles (^GC).  Circles are defined by a
- * diameter, thickness and colour.  A thickness of 0 means the
- * circle should be filled.  Colour 'B' or 'W' selects the stroke
- * colour; we only support drawing in black for simplicity.  The
- * circle is drawn with its top‑left corner at (x,y).  In ZPL the
- * origin is the top‑left of the circle.
+ * diameter, thickness and colour, with the top‑left corner of the
+ * circle at (x,y).  As on the printer the outline lies inside the
+ * diameter, and a thickness of at least the radius fills the circle.
+ * Colour 'W' draws in white.  A reversed circle (^FR) inverts what
+ * lies under its outline whatever its colour.
  */
 class CircleDrawer extends BaseDrawer {
-  async prepare(element) {
+  async prepare(element: PreparedElement<CircleElement>) {
     element.renderWidth = element.diameter;
     element.renderHeight = element.diameter;
   }
 
-  draw(ctx, element) {
-    const { x, y, diameter, thickness, color } = element;
-    const radius = diameter / 2;
-    const cx = x + radius;
-    const cy = y + radius;
+  draw(ctx: DrawingContext, element: PreparedElement<CircleElement>) {
+    const { x, y, diameter, thickness, color, reverse } = element;
     ctx.save();
-    ctx.beginPath();
-    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
-    if (thickness === 0 || color === "F") {
-      ctx.fillStyle = "black";
-      ctx.fill();
-    } else {
-      ctx.lineWidth = thickness;
-      ctx.strokeStyle = "black";
-      ctx.stroke();
-    }
-    ctx.closePath();
+    ctx.fillStyle = reverse ? "black" : inkColor(color);
+    fillEllipse(ctx, x, y, diameter, diameter, thickness);
     ctx.restore();
   }
 }
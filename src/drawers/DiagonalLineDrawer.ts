@@ -1,28 +1,44 @@
-import BaseDrawer from "./BaseDrawer";
+import type {
+  DiagonalLineElement,
+  DrawingContext,
+  PreparedElement,
+} from "../types.js";
+
+import BaseDrawer from "./BaseDrawer.js";
+import { inkColor } from "./shapes.js";
 
 /**
- * Drawer for graphic diagonal lines (^GD).  Lines are specified by
- * width, height, thickness and colour.  The line is drawn from the
- * top‑left corner to the opposite corner (positive slope) if both
- * width and height are positive.  For simplicity we ignore the
- * optional line colour and always draw in black.
+ * Drawer for graphic diagonal lines (^GD).  The line crosses a box of
+ * the element's width and height with its top‑left corner at (x,y):
+ * a right‑leaning line ('R' or '/', the default) rises from the bottom
+ * left to the top right corner, a left‑leaning one ('L' or '\') falls
+ * from the top left to the bottom right.  Like the printer we draw it
+ * as a parallelogram whose horizontal width is the line thickness.
+ * Colour 'W' draws in white.  A reversed line (^FR) inverts what lies
+ * under it whatever its colour.
  */
 class DiagonalLineDrawer extends BaseDrawer {
-  async prepare(element) {
+  async prepare(element: PreparedElement<DiagonalLineElement>) {
     element.renderWidth = element.width;
     element.renderHeight = element.height;
   }
 
-  draw(ctx, element) {
-    const { x, y, width, height, thickness } = element;
+  draw(ctx: DrawingContext, element: PreparedElement<DiagonalLineElement>) {
+    const { x, y, width, height, color, reverse } = element;
+    const thickness = Math.min(element.thickness || 1, width);
+    // Left end of the line at the top and at the bottom of the box
+    const left = element.direction === "L";
+    const top = left ? x : x + width - thickness;
+    const bottom = left ? x + width - thickness : x;
     ctx.save();
-    ctx.lineWidth = thickness || 1;
-    ctx.strokeStyle = "black";
+    ctx.fillStyle = reverse ? "black" : inkColor(color);
     ctx.beginPath();
-    ctx.moveTo(x, y);
-    ctx.lineTo(x + width, y + height);
-    ctx.stroke();
+    ctx.moveTo(top, y);
+    ctx.lineTo(top + thickness, y);
+    ctx.lineTo(bottom + thickness, y + height);
+    ctx.lineTo(bottom, y + height);
     ctx.closePath();
+    ctx.fill();
     ctx.restore();
   }
 }
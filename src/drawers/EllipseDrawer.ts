@@ -0,0 +1,29 @@
+import type { DrawingContext, EllipseElement, PreparedElement } from "../types.js";
+import { fillEllipse, inkColor } from "./shapes.js";
+
+import BaseDrawer from "./BaseDrawer.js";
+
+/**
+ * Drawer for graphic ellipses (^GE).  The ellipse is fitted into a box
+ * of the element's width and height with its top‑left corner at
+ * (x,y), and its outline is `thickness` dots thick on the inside of
+ * that box.  An outline at least half as thick as the shorter side
+ * fills the ellipse.  Colour 'W' draws in white.  A reversed ellipse
+ * (^FR) inverts what lies under its outline whatever its colour.
+ */
+class EllipseDrawer extends BaseDrawer {
+  async prepare(element: PreparedElement<EllipseElement>) {
+    element.renderWidth = element.width;
+    element.renderHeight = element.height;
+  }
+
+  draw(ctx: DrawingContext, element: PreparedElement<EllipseElement>) {
+    const { x, y, width, height, thickness, color, reverse } = element;
+    ctx.save();
+    ctx.fillStyle = reverse ? "black" : inkColor(color);
+    fillEllipse(ctx, x, y, width, height, thickness);
+    ctx.restore();
+  }
+}
+
+export default EllipseDrawer;
@@ -1,26 +1,45 @@
-import BaseDrawer from "./BaseDrawer";
-import { decodePng } from "../utils";
+import type { DrawingContext, ImageElement, PreparedElement } from "../types.js";
+import { decodeGrfData, grfToBitmap } from "../grf.js";
+
+import BaseDrawer from "./BaseDrawer.js";
+import { decodePng } from "../utils.js";
 
 /**
  * Drawer for downloaded and recalled graphics.  Images may be stored
  * using ~DY (download PNG) or ~DG (download GRF) commands.  When
  * recalled via ^IM or ^XG a new element is created with the
- * associated graphic data.  This drawer decodes supported formats
- * (currently PNG only) and draws them with optional scaling and
- * orientation.
+ * associated graphic data; ^GF creates one directly.  This drawer
+ * decodes PNG and GRF data (hex, compressed hex, Z64, B64 or binary)
+ * and draws it with optional scaling and orientation.  Graphic data
+ * that cannot be decoded is recorded in `failure` and left out.
  */
 class ImageDrawer extends BaseDrawer {
-  async prepare(element) {
+  async prepare(element: PreparedElement<ImageElement>) {
     // If no graphic data was attached, nothing to prepare
     const graphic = element.graphic;
     element.image = null;
+    element.failure = null;
     element.renderWidth = 0;
     element.renderHeight = 0;
     if (!graphic) {
       return;
     }
+    let reason = "";
     try {
-      if (graphic.type === "png" && graphic.data) {
+      if (graphic.type === "grf") {
+        // 1-bit GRF bitmap from ~DG or ^GF
+        const bytes = decodeGrfData(
+          graphic.dataString,
+          graphic.bytesPerRow,
+          graphic.format
+        );
+        const img = grfToBitmap(bytes, graphic.bytesPerRow, graphic.totalBytes);
+        if (img) {
+          element.image = img;
+          element.renderWidth = img.width * (element.scaleX || 1);
+          element.renderHeight = img.height * (element.scaleY || 1);
+        }
+      } else if (graphic.type === "png" && graphic.data) {
         // Decode PNG buffer into a pureimage bitmap
         const img = await decodePng(graphic.data);
         element.image = img;
@@ -32,15 +51,20 @@ class ImageDrawer extends BaseDrawer {
         element.image = img;
         element.renderWidth = img.width * (element.scaleX || 1);
         element.renderHeight = img.height * (element.scaleY || 1);
-      } else {
-        // Not supported (e.g., GRF ASCII).  Skip.
       }
     } catch (ex) {
       // Decoding failed; leave image null
+      reason = `: ${(ex instanceof Error && ex.message) || ex}`;
+    }
+    if (!element.image) {
+      element.failure = {
+        code: "invalid-graphic",
+        message: `Graphic data cannot be decoded${reason}`,
+      };
     }
   }
 
-  draw(ctx, element) {
+  draw(ctx: DrawingContext, element: PreparedElement<ImageElement>) {
     const { image, x, y, scaleX, scaleY, orientation } = element;
     if (!image) {
       return;
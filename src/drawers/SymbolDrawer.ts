@@ -0,0 +1,91 @@
+import type { DrawingContext, SymbolElement, PreparedElement } from "../types.js";
+import { ensureFont, measureText, resolveFont } from "../font.js";
+
+import BaseDrawer from "./BaseDrawer.js";
+import { fillEllipse } from "./shapes.js";
+
+// Symbols of ^GS by field data: the letters drawn and whether they are
+// enclosed in a circle
+const SYMBOLS: Record<string, { letters: string; ring: boolean }> = {
+  A: { letters: "R", ring: true }, // ® registered trade mark
+  B: { letters: "C", ring: true }, // © copyright
+  C: { letters: "TM", ring: false }, // ™ trade mark
+  D: { letters: "UL", ring: true }, // Underwriters Laboratories
+  E: { letters: "CSA", ring: true }, // Canadian Standards Association
+};
+
+// Cap height of the scalable font, in em
+const CAP_HEIGHT = 0.73;
+
+/**
+ * Drawer for graphic symbols (^GS).  The field data selects the symbol
+ * (A to E, see SYMBOLS), which is fitted into a box of the element's
+ * width and height with its top‑left corner at (x,y), or its bottom
+ * left corner for ^FT.  Circled marks are drawn as a ring with their
+ * letters centred inside it; the letters use the scalable font 0.
+ * Orientation may be N, R, I or B as for text.
+ */
+class SymbolDrawer extends BaseDrawer {
+  async prepare(element: PreparedElement<SymbolElement>) {
+    await ensureFont();
+    const symbol = SYMBOLS[element.symbol] || SYMBOLS.A;
+    const { width, height } = element;
+    const ring = symbol.ring
+      ? Math.max(1, Math.round(Math.min(width, height) / 12))
+      : 0;
+    // Letters fill most of the inside of the ring.  Font 0 scales
+    // freely, so the printer resolution does not matter here.
+    const inner = symbol.ring ? 0.55 : 1;
+    const font = resolveFont("0", (height * inner) / CAP_HEIGHT, 0, 203);
+    const room = width * (symbol.ring ? 0.7 : 1);
+    const textWidth = measureText(symbol.letters, font);
+    if (textWidth > room) {
+      font.scaleX *= room / textWidth;
+    }
+    element.symbolLayout = {
+      letters: symbol.letters,
+      ring,
+      font,
+      textWidth: Math.min(textWidth, room),
+    };
+    element.renderWidth = width;
+    element.renderHeight = height;
+  }
+
+  draw(ctx: DrawingContext, element: PreparedElement<SymbolElement>) {
+    const { x, y, width, height, orientation, originType } = element;
+    const layout = element.symbolLayout!;
+    const { font } = layout;
+    ctx.save();
+    ctx.translate(x, y);
+    if (originType === "baseline") {
+      ctx.translate(0, -height);
+    }
+    // Turn the symbol within the area it covers, as for barcodes
+    if (orientation === "R") {
+      ctx.translate(height, 0);
+      ctx.rotate(Math.PI / 2);
+    } else if (orientation === "I") {
+      ctx.translate(width, height);
+      ctx.rotate(Math.PI);
+    } else if (orientation === "B") {
+      ctx.translate(0, width);
+      ctx.rotate(-Math.PI / 2);
+    }
+    ctx.fillStyle = "black";
+    if (layout.ring) {
+      fillEllipse(ctx, 0, 0, width, height, layout.ring);
+    }
+    // Centre the capitals within the box
+    ctx.font = `${font.size}pt ${font.family}`;
+    ctx.translate(
+      (width - layout.textWidth) / 2,
+      (height + font.size * CAP_HEIGHT) / 2
+    );
+    ctx.scale(font.scaleX, 1);
+    ctx.fillText(layout.letters, 0, 0);
+    ctx.restore();
+  }
+}
+
+export default SymbolDrawer;
@@ -1,149 +1,160 @@
-import BaseDrawer from "./BaseDrawer";
-import PImage from "pureimage";
-import { ensureFont } from "../font";
+import type {
+  BitmapGlyph,
+  DrawOptions,
+  DrawingContext,
+  FontMetrics,
+  PreparedElement,
+  TextElement,
+} from "../types.js";
+import { ensureFont, resolveFont } from "../font.js";
+import type { Bitmap } from "pureimage";
+
+import BaseDrawer from "./BaseDrawer.js";
+import { grfToBitmap } from "../grf.js";
+import { layoutText } from "../textLayout.js";
+
+// Images of the glyphs of downloaded bitmap fonts, decoded on first
+// use.  The fonts are shared by every label that uses them, so the
+// images are kept here rather than on the glyphs.
+const glyphImages = new WeakMap<BitmapGlyph, Bitmap | null>();
+
+function glyphImage(glyph: BitmapGlyph): Bitmap | null {
+  let image = glyphImages.get(glyph);
+  if (image === undefined) {
+    image = grfToBitmap(
+      glyph.bytes,
+      glyph.bytesPerRow,
+      glyph.bytesPerRow * glyph.height
+    );
+    glyphImages.set(glyph, image);
+  }
+  return image;
+}
 
 /**
- * Drawer for plain text elements.  Text in ZPL is drawn using
- * various fonts; for simplicity we support only DejaVu Sans at
- * arbitrary heights and optional widths.  Orientation may be
- * specified using N,R,I,B for normal, rotated 90°, inverted 180°
- * and rotated 270° respectively.
+ * Drawer for plain text elements.  The analyser resolves the printer
+ * font of every text field (see resolveFont() in font.ts): bitmap
+ * fonts A–H are drawn one character per fixed cell, font 0 and the
+ * other scalable fonts proportionally, stretched to the requested
+ * width.  Field blocks (^FB) and text blocks (^TB) are broken into
+ * lines by layoutText().  Bitmap fonts downloaded with ~DB are drawn
+ * from their own glyph bitmaps, magnified to the requested size.
+ * Orientation may be specified using N,R,I,B for normal, rotated 90°,
+ * inverted 180° and rotated 270° respectively.
  */
 class TextDrawer extends BaseDrawer {
-  async prepare(element) {
+  async prepare(
+    element: PreparedElement<TextElement>,
+    options: DrawOptions = {}
+  ) {
     // Ensure font is loaded before measuring
     await ensureFont();
-    // Create a temporary canvas for measurement
-    const tmp = PImage.make(1, 1);
-    const ctx = tmp.getContext("2d");
-    const fontSize = element.height || 10;
-    // Choose bold font for designator '0', else normal
-    // Choose a heavier, condensed font for designator '0' to better
-    // approximate the appearance of ZPL font 0.  Fall back to the
-    // regular bold if the condensed variant is unavailable.
-    const fontFace =
-      element.fontName && element.fontName.toString().toUpperCase() === "0"
-        ? "DejaVu Sans Condensed Bold"
-        : "DejaVu Sans";
-    ctx.font = `${fontSize}pt '${fontFace}'`;
-    const metrics = ctx.measureText(element.text || "");
-    // Determine a horizontal scaling factor for certain fonts.  ZPL
-    // font "0" (OCRA) has a relatively narrow aspect ratio compared
-    // to DejaVu Sans Bold.  To better approximate the original ZPL
-    // appearance we compress the width of these glyphs slightly.  If
-    // the element has a specific width set (>0) we compute the scale
-    // from width/height; otherwise use a default factor for font 0.
-    let scaleX = 1;
-    if (element.fontName && element.fontName.toString().toUpperCase() === "0") {
-      if (
-        element.width &&
-        element.width > 0 &&
-        element.height &&
-        element.height > 0
-      ) {
-        scaleX = element.width / element.height;
-      } else {
-        // default compression factor for font 0: tuned by eye to approximate
-        // the narrow aspect ratio of Zebra font 0.  A value around 0.65
-        // compresses the glyph width sufficiently for large strings like
-        // 'CA' to fit within their cells.
-        scaleX = 0.65;
-      }
+    // Elements built by hand may lack the resolved font; resolve it at
+    // the resolution of the label
+    if (!element.font) {
+      element.font = resolveFont(
+        element.fontName,
+        element.height || 10,
+        element.width || 0,
+        options.dpi || 203
+      );
     }
-    element.scaleX = scaleX;
-    // Render width is scaled width; height is raw height (dots)
-    element.renderWidth = metrics.width * scaleX;
-    element.renderHeight = fontSize;
+    // Break field and text blocks into lines (see textLayout.ts)
+    element.layout = layoutText(element.text, element.font, element.block);
+    element.renderWidth = element.layout.width;
+    element.renderHeight = element.layout.height;
   }
 
-  draw(ctx, element) {
-    const { x, y, text, height, orientation, originType, scaleX } = element;
+  draw(ctx: DrawingContext, element: PreparedElement<TextElement>) {
+    const { x, y, orientation, originType, font } = element;
+    const layout = element.layout!;
     ctx.save();
     ctx.fillStyle = "black";
-    const fontSize = height || element.renderHeight || 10;
-    // Choose bold for designator '0'
-    const fontFace =
-      element.fontName && element.fontName.toString().toUpperCase() === "0"
-        ? "DejaVu Sans Condensed Bold"
-        : "DejaVu Sans";
-    ctx.font = `${fontSize}pt '${fontFace}'`;
+    // pureimage looks the family up by its exact name, so it must not
+    // be quoted
+    if (font.family) {
+      ctx.font = `${font.size}pt ${font.family}`;
+    }
     // Determine the baseline position based on origin type.  When
     // originType is 'top-left', the provided y coordinate specifies
-    // the top of the text box, so the baseline is y + height.  When
-    // 'baseline', the y coordinate already specifies the baseline.
-    let baseX = x;
+    // the top of the text box, so the baseline lies below it by the
+    // font's baseline offset.  When 'baseline', the y coordinate
+    // already specifies the baseline, which for a block is the
+    // baseline of its last line.
     let baseY = y;
+    let lift = 0;
     if (!originType || originType === "top-left") {
-      baseY = y + fontSize;
-    }
-    // Use horizontal scaling factor if provided
-    const sx = scaleX || 1;
-    // Adjust horizontal position for field block alignment if applicable.
-    if (element.blockWidth && element.blockAlign) {
-      // Measure the text width using current font settings.  Note we need to
-      // apply the same scaling factor when comparing to block width.
-      const tmp = ctx.measureText(text);
-      const actual = tmp.width * sx;
-      const blockWidth = element.blockWidth;
-      let delta = 0;
-      const align = element.blockAlign.toUpperCase();
-      if (align === "C") {
-        delta = (blockWidth - actual) / 2;
-      } else if (align === "R") {
-        delta = blockWidth - actual;
-      } else if (align === "J") {
-        // For justification we leave as left align for now (no extra spacing)
-        delta = 0;
-      } else {
-        // Left alignment; no offset
-        delta = 0;
-      }
-      baseX += delta;
+      baseY = y + font.baseline;
+    } else {
+      lift = Math.max(0, ...layout.runs.map((run) => run.y));
     }
-    // Handle orientation.  We rotate about the base point then draw
-    // the text at the origin.  Apply scaling after rotation to
-    // compress characters horizontally.  To simulate a heavier weight
-    // for ZPL font 0 we draw the text twice with a small offset.
-    const drawText = () => {
-      // When using font 0, double‑draw for extra weight
-      if (
-        element.fontName &&
-        element.fontName.toString().toUpperCase() === "0"
-      ) {
-        // Draw multiple times with small offsets to simulate a heavier
-        // weight.  Offsets are limited to 0 or 1 pixel so that the
-        // letterforms remain legible but appear bolder.  This helps
-        // approximate the thick strokes of Zebra font 0 as seen in
-        // printed labels.
-        ctx.fillText(text, 0, 0);
-        ctx.fillText(text, 1, 0);
-        ctx.fillText(text, 0, 1);
-      } else {
-        ctx.fillText(text, 0, 0);
-      }
-    };
+    // Rotate about the base point, then draw the lines relative to it.
+    // R turns the text clockwise so that it reads top to bottom and the
+    // lines of a block follow each other to the left.
+    ctx.translate(x, baseY);
     if (orientation === "R") {
-      ctx.translate(baseX, baseY);
-      ctx.rotate(-Math.PI / 2);
-      ctx.scale(sx, 1);
-      drawText();
+      ctx.rotate(Math.PI / 2);
     } else if (orientation === "I") {
-      ctx.translate(baseX, baseY);
       ctx.rotate(Math.PI);
-      ctx.scale(sx, 1);
-      drawText();
     } else if (orientation === "B") {
-      ctx.translate(baseX, baseY);
-      ctx.rotate(Math.PI / 2);
-      ctx.scale(sx, 1);
-      drawText();
-    } else {
-      ctx.translate(baseX, baseY);
-      ctx.scale(sx, 1);
-      drawText();
+      ctx.rotate(-Math.PI / 2);
+    }
+    for (const run of layout.runs) {
+      ctx.save();
+      ctx.translate(run.x, run.y - lift);
+      this.drawLine(ctx, run.text, font);
+      ctx.restore();
     }
     ctx.restore();
   }
+
+  /**
+   * Draws a line of text with its baseline starting at the origin.
+   */
+  drawLine(ctx: DrawingContext, text: string, font: FontMetrics) {
+    if (font.glyphs) {
+      const { space = 0, magX = 1, magY = 1 } = font;
+      // Every glyph is placed relative to the pen on the baseline and
+      // moves the pen on by its own advance
+      let pen = 0;
+      for (const ch of text) {
+        const glyph = font.glyphs.get(ch.codePointAt(0)!);
+        if (!glyph) {
+          pen += space * magX;
+          continue;
+        }
+        const image = glyphImage(glyph);
+        if (image) {
+          ctx.drawImage(
+            image,
+            0,
+            0,
+            glyph.width,
+            glyph.height,
+            pen + glyph.x * magX,
+            -glyph.y * magY,
+            glyph.width * magX,
+            glyph.height * magY
+          );
+        }
+        pen += (glyph.advance || space) * magX;
+      }
+    } else if (font.bitmap) {
+      // Fixed pitch: every character is fitted into its own cell
+      [...text].forEach((ch, i) => {
+        ctx.save();
+        ctx.translate(i * font.cellWidth, 0);
+        ctx.scale(font.scaleX, 1);
+        ctx.fillText(ch, 0, 0);
+        ctx.restore();
+      });
+    } else {
+      ctx.save();
+      ctx.scale(font.scaleX, 1);
+      ctx.fillText(text, 0, 0);
+      ctx.restore();
+    }
+  }
 }
 
 export default TextDrawer;
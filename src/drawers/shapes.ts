@@ -0,0 +1,170 @@
+/*
+ * Outlines shared by the graphic drawers.  Shapes are filled rather
+ * than stroked: ZPL draws the lines of a graphic inside its bounding
+ * box, whereas a stroke would straddle the outline.
+ */
+import type { DrawingContext } from "../types.js";
+
+/**
+ * Fills an ellipse fitted into the box at (x, y).  With a thickness
+ * smaller than half the shorter side only a ring of that thickness,
+ * along the inside of the box, is filled.  The inner outline runs the
+ * other way round so that the ring is filled under both the even-odd
+ * and the non-zero winding rule.
+ *
+ * @param {DrawingContext} ctx Drawing context, with the fill style set
+ * @param {number} x Left edge of the box
+ * @param {number} y Top edge of the box
+ * @param {number} width Width of the box
+ * @param {number} height Height of the box
+ * @param {number} thickness Line thickness; 0 fills the ellipse
+ */
+export function fillEllipse(
+  ctx: DrawingContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  thickness: number
+) {
+  const rx = width / 2;
+  const ry = height / 2;
+  const cx = x + rx;
+  const cy = y + ry;
+  // Enough segments for the outline to look smooth at any size
+  const steps = Math.max(24, Math.ceil(Math.max(rx, ry) * 2));
+  const outline = (radiusX: number, radiusY: number, direction: number) => {
+    for (let i = 0; i <= steps; i++) {
+      const angle = (direction * i * 2 * Math.PI) / steps;
+      const px = cx + radiusX * Math.cos(angle);
+      const py = cy + radiusY * Math.sin(angle);
+      if (i === 0) {
+        ctx.moveTo(px, py);
+      } else {
+        ctx.lineTo(px, py);
+      }
+    }
+    ctx.closePath();
+  };
+  ctx.beginPath();
+  outline(rx, ry, 1);
+  if (thickness > 0 && thickness < Math.min(rx, ry)) {
+    outline(rx - thickness, ry - thickness, -1);
+  }
+  ctx.fill();
+}
+
+/**
+ * Fills a box with its top-left corner at (x, y).  With a thickness
+ * smaller than half the shorter side only a frame of that thickness,
+ * along the inside of the box, is filled.  The box is made of
+ * rectangles, which cover whole dots on a bitmap.
+ *
+ * @param {DrawingContext} ctx Drawing context, with the fill style set
+ * @param {number} x Left edge of the box
+ * @param {number} y Top edge of the box
+ * @param {number} width Width of the box
+ * @param {number} height Height of the box
+ * @param {number} thickness Line thickness
+ */
+export function fillBox(
+  ctx: DrawingContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  thickness: number
+) {
+  if (thickness * 2 >= Math.min(width, height)) {
+    ctx.fillRect(x, y, width, height);
+    return;
+  }
+  const t = thickness;
+  ctx.fillRect(x, y, width, t);
+  ctx.fillRect(x, y + height - t, width, t);
+  ctx.fillRect(x, y + t, t, height - 2 * t);
+  ctx.fillRect(x + width - t, y + t, t, height - 2 * t);
+}
+
+/**
+ * Fills a box with rounded corners.  As on the printer the corner
+ * radius is the rounding degree (1 to 8) in eighths of half the shorter
+ * side, so degree 8 rounds the short ends into semicircles.  The inner
+ * outline of a frame keeps that radius where the opening is large
+ * enough, and runs the other way round like the ring of fillEllipse().
+ *
+ * @param {DrawingContext} ctx Drawing context, with the fill style set
+ * @param {number} x Left edge of the box
+ * @param {number} y Top edge of the box
+ * @param {number} width Width of the box
+ * @param {number} height Height of the box
+ * @param {number} thickness Line thickness
+ * @param {number} rounding Rounding degree, 1 to 8
+ */
+export function fillRoundedBox(
+  ctx: DrawingContext,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  thickness: number,
+  rounding: number
+) {
+  const radius = (Math.min(width, height) / 2) * (rounding / 8);
+  const outline = (
+    left: number,
+    top: number,
+    w: number,
+    h: number,
+    direction: number
+  ) => {
+    const r = Math.min(radius, Math.min(w, h) / 2);
+    const right = left + w;
+    const bottom = top + h;
+    // Corner centres, clockwise from the top left
+    const corners = [
+      [left + r, top + r],
+      [right - r, top + r],
+      [right - r, bottom - r],
+      [left + r, bottom - r],
+    ];
+    // Enough segments per quarter turn for the corners to look smooth
+    const steps = Math.max(6, Math.ceil(r));
+    const order = direction > 0 ? [0, 1, 2, 3] : [0, 3, 2, 1];
+    order.forEach((corner, i) => {
+      const [cx, cy] = corners[corner];
+      // Each corner's quarter turn starts where the previous one ended
+      const start = Math.PI + (corner * Math.PI) / 2;
+      for (let step = 0; step <= steps; step++) {
+        const turn = direction > 0 ? step : steps - step;
+        const angle = start + (turn * Math.PI) / 2 / steps;
+        const px = cx + r * Math.cos(angle);
+        const py = cy + r * Math.sin(angle);
+        if (i === 0 && step === 0) {
+          ctx.moveTo(px, py);
+        } else {
+          ctx.lineTo(px, py);
+        }
+      }
+    });
+    ctx.closePath();
+  };
+  ctx.beginPath();
+  outline(x, y, width, height, 1);
+  if (thickness * 2 < Math.min(width, height)) {
+    const t = thickness;
+    outline(x + t, y + t, width - 2 * t, height - 2 * t, -1);
+  }
+  ctx.fill();
+}
+
+/**
+ * Returns the canvas colour of a ZPL line colour: 'W' draws in white,
+ * anything else in black.
+ *
+ * @param {string} color ZPL colour code ('B' or 'W')
+ * @returns {string} Fill or stroke style
+ */
+export function inkColor(color: string): string {
+  return color && color.toUpperCase() === "W" ? "white" : "black";
+}
@@ -0,0 +1,145 @@
+/*
+ * Field data decoding for ^FH (hexadecimal escapes) and ^CI (change
+ * international font/encoding).  A printer receives field data as
+ * bytes and interprets them in the character set selected with ^CI.
+ * The analyser works on JavaScript strings, so the model here is:
+ *
+ *  - ^FH escapes such as "_C3_B3" produce the raw bytes they name;
+ *  - literal ASCII characters are the bytes of the same value, so that
+ *    the ^CI 0–12 national substitutions and ^CI remapping apply to
+ *    them as they would on a printer;
+ *  - any other literal character is already decoded text and is kept
+ *    as it is, whichever character set is active.
+ *
+ * Runs of bytes are then decoded with the active character set into
+ * Unicode before the data reaches the drawers.
+ */
+
+// Upper half (0x80–0xFF) of Code Page 850, used by ^CI 0–13
+const CP850_HIGH =
+  "ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒáíóúñÑªº¿®¬½¼¡«»" +
+  "░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀" +
+  "ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0";
+
+// ASCII positions replaced by the single byte national character sets
+const NATIONAL_POSITIONS = [
+  0x23, 0x24, 0x40, 0x5b, 0x5c, 0x5d, 0x5e, 0x60, 0x7b, 0x7c, 0x7d, 0x7e,
+];
+
+// Characters printed at NATIONAL_POSITIONS for ^CI 0–12
+const NATIONAL_SETS: Record<number, string> = {
+  0: "#$@[\\]^`{|}~", // USA 1
+  1: "#$@[\\]^`{|}~", // USA 2
+  2: "£$@[\\]^`{|}~", // UK
+  3: "£$¾ÿ½|^`¨ƒ¼´", // Holland
+  4: "#$@ÆØÅ^`æøå~", // Denmark/Norway
+  5: "#¤ÉÄÖÅÜéäöåü", // Sweden/Finland
+  6: "#$§ÄÖÜ^`äöüß", // Germany
+  7: "£$à°ç§^`éùè¨", // France 1
+  8: "#$àâçêîôéùèû", // France 2
+  9: "£$§°çé^ùàòèì", // Italy
+  10: "₧$@¡Ñ¿^`¨ñç~", // Spain
+  11: "#$@[\\]^`{|}~", // Miscellaneous
+  12: "#$@[¥]^`{|}~", // Japan (ASCII with Yen)
+};
+
+// TextDecoder labels for the multi-byte and Windows code page sets
+const DECODER_LABELS: Record<number, string> = {
+  15: "shift_jis",
+  16: "euc-jp",
+  27: "windows-1252",
+  28: "utf-8",
+  29: "utf-16be",
+  30: "utf-16le",
+  31: "windows-1255",
+  33: "windows-1250",
+  34: "windows-1251",
+  35: "windows-1253",
+  36: "windows-1254",
+  37: "windows-1257",
+};
+
+/** Decodes a single byte with Code Page 850 and a national set. */
+function decodeCp850Byte(byte: number, charset: number): string {
+  if (byte >= 0x80) {
+    return CP850_HIGH[byte - 0x80];
+  }
+  const national = NATIONAL_SETS[charset];
+  const position = NATIONAL_POSITIONS.indexOf(byte);
+  if (national && position >= 0) {
+    return [...national][position];
+  }
+  return String.fromCharCode(byte);
+}
+
+/**
+ * Decodes bytes in the given ^CI character set.  Sets without a
+ * dedicated decoder fall back to Code Page 850, the printer default.
+ *
+ * @param {number[]} bytes Byte values
+ * @param {number} charset ^CI character set number
+ * @returns {string} Decoded text
+ */
+function decodeBytes(bytes: number[], charset: number): string {
+  const label = DECODER_LABELS[charset];
+  if (label) {
+    return new TextDecoder(label).decode(Uint8Array.from(bytes));
+  }
+  return bytes.map((b) => decodeCp850Byte(b, charset)).join("");
+}
+
+/**
+ * Decodes ^FD field data into Unicode text.
+ *
+ * @param {string} text Field data as it appears after ^FD
+ * @param {{hexIndicator?: string|null, charset?: number, remap?: Map<number, number>|null}} [options]
+ *   `hexIndicator` is the ^FH escape character (none when null),
+ *   `charset` the ^CI character set and `remap` the ^CI
+ *   substitutions from input byte to printed character code
+ * @returns {string} Decoded text
+ */
+export function decodeFieldData(
+  text: string,
+  options: {
+    hexIndicator?: string | null;
+    charset?: number;
+    remap?: Map<number, number> | null;
+  } = {}
+): string {
+  const { hexIndicator = null, charset = 0, remap = null } = options;
+  // In UTF-16 an ASCII character is not a single byte, so literal
+  // characters are always taken as text
+  const literalBytes = charset !== 29 && charset !== 30;
+  let out = "";
+  let pending: number[] = [];
+  const pushByte = (byte: number) => {
+    pending.push(remap?.get(byte) ?? byte);
+  };
+  const flush = () => {
+    if (pending.length > 0) {
+      out += decodeBytes(pending, charset);
+      pending = [];
+    }
+  };
+  for (let i = 0; i < text.length; ) {
+    const ch = String.fromCodePoint(text.codePointAt(i)!);
+    if (
+      hexIndicator &&
+      ch === hexIndicator &&
+      /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))
+    ) {
+      pushByte(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 3;
+      continue;
+    }
+    if (literalBytes && ch.charCodeAt(0) < 0x80) {
+      pushByte(ch.charCodeAt(0));
+    } else {
+      flush();
+      out += ch;
+    }
+    i += ch.length;
+  }
+  flush();
+  return out;
+}
@@ -1,47 +1,492 @@
 import * as PImage from "pureimage";
+import * as opentype from "opentype.js";
 
+import type { BitmapFont, DownloadedFont, FontMetrics } from "./types.js";
+import { decodeGrfData } from "./grf.js";
+
+import fs from "fs";
 import path from "path";
 
+/*
+ * Fonts used to draw ZPL text.  The printer fonts are stood in for by
+ * TrueType faces bundled in fonts/: DejaVu Sans, DejaVu Sans Condensed
+ * Bold for font 0 and DejaVu Sans Mono for the bitmap fonts (see
+ * fonts/LICENSE for their terms).  Callers can replace any
+ * of them, and supply the fonts a label refers to by file name, with
+ * registerFont().  Fonts downloaded by the label itself (~DU, ~DT,
+ * ~DB) are handled by the analyser and end up here as well.
+ */
+
 // Internal memoisation to ensure fonts are only loaded once.
 let loaded = false;
-let registration;
+/** A glyph of an opentype.js font. */
+export interface OpenTypeGlyph {
+  index: number;
+  advanceWidth?: number;
+}
+
+/** A command of an opentype.js glyph outline. */
+export type OpenTypePathCommand =
+  | { type: "M" | "L"; x: number; y: number }
+  | { type: "Q"; x1: number; y1: number; x: number; y: number }
+  | {
+      type: "C";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      x: number;
+      y: number;
+    }
+  | { type: "Z" };
+
+/** The members of an opentype.js font that the renderer uses. */
+export interface OpenTypeFont {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+  /** "truetype" or "cff" */
+  outlinesFormat: string;
+  names: { postScriptName?: Record<string, string> };
+  tables: {
+    head?: { xMin?: number; yMin?: number; xMax?: number; yMax?: number };
+    os2?: { sCapHeight?: number };
+  };
+  charToGlyph(char: string): OpenTypeGlyph | null;
+  stringToGlyphs(text: string): OpenTypeGlyph[];
+  getPath(
+    text: string,
+    x: number,
+    y: number,
+    size: number
+  ): { commands: OpenTypePathCommand[] };
+}
+
+/** A loaded font face, as returned by getFontFace(). */
+export interface FontFace {
+  family: string;
+  path: string | null;
+  data: Buffer;
+  font: OpenTypeFont;
+  custom: boolean;
+}
+
+// Loaded faces keyed by family name
+const faces: Record<string, FontFace> = {};
+// Families registered for font designators and font file names, keyed
+// by fontKey()
+const registry = new Map<string, string>();
+// Number of faces loaded from data, used to name their families
+let loadedFaces = 0;
+
+// Family used when a requested family is not registered
+const DEFAULT_FAMILY = "DejaVu Sans";
+
+// Native character matrices of the resident bitmap fonts as
+// [height, width, gap, baseline] in dots: the glyph cell, the blank
+// columns between characters and the baseline measured from the top
+// of the cell.  Most are the same for every printhead; E and H come in
+// a different matrix per resolution.  Keys are dots per mm.
+const BITMAP_FONT_MATRICES: Record<string, Record<number, number[]>> = {
+  A: { 6: [9, 5, 1, 7], 8: [9, 5, 1, 7], 12: [9, 5, 1, 7] },
+  B: { 6: [11, 7, 2, 11], 8: [11, 7, 2, 11], 12: [11, 7, 2, 11] },
+  C: { 6: [18, 10, 2, 14], 8: [18, 10, 2, 14], 12: [18, 10, 2, 14] },
+  D: { 6: [18, 10, 2, 14], 8: [18, 10, 2, 14], 12: [18, 10, 2, 14] },
+  E: { 6: [23, 12, 3, 19], 8: [28, 15, 5, 23], 12: [42, 20, 6, 35] },
+  F: { 6: [26, 13, 3, 21], 8: [26, 13, 3, 21], 12: [26, 13, 3, 21] },
+  G: { 6: [60, 40, 8, 48], 8: [60, 40, 8, 48], 12: [60, 40, 8, 48] },
+  H: { 6: [17, 11, 4, 17], 8: [21, 13, 6, 21], 12: [34, 22, 9, 34] },
+};
+
+// Largest magnification of a bitmap font in either direction
+const MAX_MAGNIFICATION = 10;
+
+// TrueType faces standing in for the printer fonts.  Font 0 is a bold
+// condensed sans serif; the bitmap fonts are fixed pitch, so their
+// glyphs come from a monospaced face fitted into each cell.  Any other
+// designator is drawn with the regular face.
+const SCALABLE_FAMILY = "DejaVu Sans Condensed Bold";
+const BITMAP_FAMILY = "DejaVu Sans Mono";
+
+// Position of the baseline of a scalable font, as a fraction of the
+// character height measured from the top of the cell
+const SCALABLE_BASELINE = 0.75;
+
+// Cap height of the monospaced face as a fraction of its em size, used
+// to make capitals reach the baseline row of a bitmap font cell
+const BITMAP_CAP_HEIGHT = 0.729;
+
+// Files of the bundled faces in fonts/, keyed by family
+const BUNDLED_FONTS = {
+  [DEFAULT_FAMILY]: "DejaVuSans.ttf",
+  [SCALABLE_FAMILY]: "DejaVuSansCondensed-Bold.ttf",
+  [BITMAP_FAMILY]: "DejaVuSansMono.ttf",
+};
 
 /**
- * Ensures that the bundled DejaVuSans font is registered with
- * pureimage.  Many drawers rely on this font for measuring and
- * drawing text.  Registration is performed lazily on first call.
+ * Parses TrueType or OpenType data and makes it available under a
+ * family name, both to pureimage and to the vector backends.  Throws
+ * when the data is not a usable font.
  *
- * @returns {Promise<void>}
+ * @param {string} family Family name to register
+ * @param {Buffer} data Font file contents
+ * @param {string} [file] Path the data was read from, if any
+ * @param {boolean} [custom=false] Whether the font was supplied by the
+ *   caller or the label rather than being one of the stand-in faces
  */
-export async function ensureFont() {
+function loadFace(
+  family: string,
+  data: Buffer,
+  file?: string,
+  custom = false
+) {
+  const font: OpenTypeFont = opentype.parse(
+    data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+  );
+  const reg = PImage.registerFont(file || family, family);
+  reg.font = font;
+  reg.loaded = true;
+  faces[family] = { family, path: file || null, data, font, custom };
+}
+
+/**
+ * Registers the bundled fonts and loads them synchronously.  Text
+ * metrics are needed while analysing a label, which happens
+ * synchronously, so loading does not wait for the drawers.
+ */
+function loadFonts() {
   if (loaded) {
     return;
   }
-  // Register normal and bold variants of DejaVu Sans.  The bold
-  // variant is loaded from the system fonts to avoid bundling
-  // additional files.  If the bold font cannot be loaded the
-  // fallback will be the normal font.
   const __dirname = path.dirname(new URL(import.meta.url).pathname);
-  const normalFontPath = path.join(__dirname, "..", "fonts", "DejaVuSans.ttf");
-  const boldFontPath = "/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf";
-  const condensedBoldPath =
-    "/usr/share/fonts/truetype/dejavu/DejaVuSansCondensed-Bold.ttf";
-  const normalReg = PImage.registerFont(normalFontPath, "DejaVu Sans");
-  const boldReg = PImage.registerFont(boldFontPath, "DejaVu Sans Bold");
-  const condensedBoldReg = PImage.registerFont(
-    condensedBoldPath,
-    "DejaVu Sans Condensed Bold"
+  for (const [family, file] of Object.entries(BUNDLED_FONTS)) {
+    const fontPath = path.join(__dirname, "..", "fonts", file);
+    loadFace(family, fs.readFileSync(fontPath), fontPath);
+  }
+  loaded = true;
+}
+
+/**
+ * Ensures that the bundled fonts are registered with pureimage.  Many drawers rely on these fonts for
+ * measuring and drawing text.  Registration is performed lazily on
+ * first call.
+ *
+ * @returns {Promise<void>}
+ */
+export async function ensureFont() {
+  loadFonts();
+}
+
+/**
+ * Normalises a font designator or font file name for the registry.
+ * File names are upper-cased; names given without a drive are kept
+ * without one, so they match the font on any drive.
+ */
+function fontKey(name: string): string {
+  return String(name || "").trim().toUpperCase();
+}
+
+/**
+ * Registers a TrueType or OpenType font for use in labels.  `name` is
+ * either a font designator, whose stand-in face it replaces (e.g. '0'
+ * to draw font 0 in the printer's actual CG Triumvirate), or the name
+ * of a font file as referenced by ^A@ and ^CW, such as 'E:ARI000.TTF'.
+ * A file name without a drive ('ARI000.TTF') matches on every drive.
+ * Replacing a designator keeps the font's layout rules: the bitmap
+ * fonts A–H still print one character per fixed cell.
+ *
+ * @param {string} name Font designator or font file name
+ * @param {string|Buffer|Uint8Array} source Path of the font file, or its contents
+ */
+export function registerFont(
+  name: string,
+  source: string | Buffer | Uint8Array
+): void {
+  const key = fontKey(name);
+  if (!key) {
+    throw new Error("A font designator or file name is required");
+  }
+  loadFonts();
+  const file = typeof source === "string" ? source : undefined;
+  const data =
+    typeof source === "string" ? fs.readFileSync(source) : Buffer.from(source);
+  const family = `ZPL ${key}`;
+  loadFace(family, data, file, true);
+  registry.set(key, family);
+}
+
+/**
+ * Loads the data of a TrueType font downloaded by a label (~DU, ~DT or
+ * ~DY) and returns the family name to draw with.  Throws when the data
+ * is not a font this renderer can read.
+ *
+ * @param {Buffer} data Font file contents
+ * @returns {string} Family name
+ */
+export function loadDownloadedFont(data: Buffer): string {
+  loadFonts();
+  loadedFaces++;
+  const family = `ZPL download ${loadedFaces}`;
+  loadFace(family, data, undefined, true);
+  return family;
+}
+
+/**
+ * Decodes a bitmap font downloaded with ~DB.  After the header (font
+ * orientation, maximum height and width, baseline, space width,
+ * character count and copyright) every character is given as
+ * "#xxxx.h.w.x.y.i.data": the character code in hex, the bitmap height
+ * and width, its x offset from the pen and y offset from the baseline
+ * up to its top row, the advance to the next character and the bitmap
+ * in ASCII hex.  Zebra's own examples write zeros as the letter O,
+ * which is accepted as well.
+ *
+ * @param {string[]} header Parameters a, h, w, base and space
+ * @param {string} data Character definitions
+ * @returns {BitmapFont}
+ */
+export function decodeBitmapFont(header: string[], data: string): BitmapFont {
+  const [, h, w, base, space] = header.map((v) => parseInt(v, 10));
+  const glyphs = new Map();
+  const entry =
+    /#([0-9A-Fa-f]+)\.(\d+)\.(\d+)\.(-?\d+)\.(-?\d+)\.(\d+)\.([^#]*)/g;
+  let match;
+  while ((match = entry.exec(data))) {
+    const width = parseInt(match[3], 10);
+    const bytesPerRow = Math.ceil(width / 8);
+    const hex = match[7].replace(/\s+/g, "").replace(/O/g, "0");
+    glyphs.set(parseInt(match[1], 16), {
+      height: parseInt(match[2], 10),
+      width,
+      x: parseInt(match[4], 10),
+      y: parseInt(match[5], 10),
+      advance: parseInt(match[6], 10),
+      bytes: decodeGrfData(hex, bytesPerRow),
+      bytesPerRow,
+    });
+  }
+  return {
+    type: "bitmap",
+    height: h > 0 ? h : 1,
+    width: w > 0 ? w : 1,
+    baseline: base > 0 ? base : 0,
+    space: space > 0 ? space : 0,
+    glyphs,
+  };
+}
+
+/**
+ * Returns the family registered for a font file name, trying the name
+ * as given, without its drive and without its extension.
+ */
+function registeredFile(file: string): string | undefined {
+  const key = fontKey(file);
+  const bare = key.replace(/^[A-Z]:/, "");
+  return (
+    registry.get(key) ||
+    registry.get(bare) ||
+    registry.get(bare.replace(/\.[A-Z0-9]+$/, ""))
   );
-  await normalReg.load();
-  try {
-    await boldReg.load();
-  } catch (err) {
-    // If bold cannot be loaded, ignore; the normal font will be used
+}
+
+/**
+ * Looks up a loaded font by family name, falling back to the default
+ * DejaVu Sans face when the family is unknown.  Vector backends use
+ * this to embed fonts and to turn text into outlines.  ensureFont()
+ * must have been awaited first.
+ *
+ * @param {string} family Font family name
+ * @returns {FontFace|undefined}
+ *   The family, font file path (null for fonts given as data), font
+ *   file contents, opentype.js font object and whether the font was
+ *   registered by the caller or downloaded by a label
+ */
+export function getFontFace(family: string): FontFace {
+  return faces[family] || faces[DEFAULT_FAMILY];
+}
+
+/** Picks the matrix table entry of a bitmap font for a resolution. */
+function bitmapMatrix(name: string, dpi: number): number[] | undefined {
+  const matrices = BITMAP_FONT_MATRICES[String(name || "").toUpperCase()];
+  if (!matrices) {
+    return undefined;
   }
-  try {
-    await condensedBoldReg.load();
-  } catch (err) {
-    // If condensed bold cannot be loaded, ignore
+  const dotsPerMm = dpi / 25.4;
+  const key = dotsPerMm < 7 ? 6 : dotsPerMm < 10 ? 8 : 12;
+  return matrices[key];
+}
+
+/**
+ * Returns the native character matrix of a resident bitmap font (A–H)
+ * for a printer resolution.  Printheads of 12 dots/mm and above use
+ * the 12 dots/mm matrices.
+ *
+ * @param {string} name Font designator
+ * @param {number} dpi Printer resolution in dots per inch
+ * @returns {{height: number, width: number, gap: number, baseline: number}|undefined}
+ *   Matrix in dots, or undefined when the designator is not a resident
+ *   bitmap font
+ */
+export function getBitmapFontMatrix(
+  name: string,
+  dpi: number
+):
+  | { height: number; width: number; gap: number; baseline: number }
+  | undefined {
+  const matrix = bitmapMatrix(name, dpi);
+  if (!matrix) {
+    return undefined;
   }
-  loaded = true;
+  const [height, width, gap, baseline] = matrix;
+  return { height, width, gap, baseline };
+}
+
+/** Whole magnification of a bitmap font dimension, between 1 and 10. */
+function magnification(requested: number, native: number): number {
+  if (!(requested > 0)) {
+    return 0;
+  }
+  return Math.min(
+    MAX_MAGNIFICATION,
+    Math.max(1, Math.floor(requested / native))
+  );
+}
+
+/**
+ * Works out how a printer font is laid out at a requested size.
+ *
+ * Bitmap fonts (A–H) only scale by whole multiples of their native
+ * matrix, up to ten times: the requested height and width are rounded
+ * down to a multiple, and without a width the characters keep the
+ * magnification of the height.  Every character then takes a fixed
+ * cell of the magnified matrix plus the inter-character gap.  Bitmap
+ * fonts downloaded with ~DB magnify the same way but keep the advance
+ * of each character.
+ *
+ * Font 0, TrueType fonts and the other designators scale freely.  The
+ * height is the em size of the glyphs and the width stretches them
+ * horizontally; without a width the font keeps its own proportions.
+ *
+ * `source` is the font the designator stands for when it is not a
+ * resident font: the file name given with ^A@ or ^CW, looked up among
+ * the fonts registered with registerFont(), or a font downloaded by
+ * the label.  Fonts that cannot be found print in the designator's
+ * own font, or the default face for ^A@.
+ *
+ * @param {string} name Font designator
+ * @param {number} height Requested character height in dots
+ * @param {number} width Requested character width in dots (0 for default)
+ * @param {number} dpi Printer resolution in dots per inch
+ * @param {string|DownloadedFont} [source] Font file name or downloaded font
+ * @returns {FontMetrics}
+ *   `size` is the em size to draw the glyphs at, `scaleX` their
+ *   horizontal stretch, `baseline` the distance from the top of the
+ *   text to its baseline and `cellWidth` the advance of every
+ *   character of a resident bitmap font (0 otherwise).  Downloaded
+ *   bitmap fonts carry their `glyphs`, the `space` advance and the
+ *   magnification.
+ */
+export function resolveFont(
+  name: string,
+  height: number,
+  width: number,
+  dpi: number,
+  source?: string | DownloadedFont
+): FontMetrics {
+  const designator = String(name || "0").toUpperCase();
+  if (source && typeof source === "object" && source.type === "bitmap") {
+    const magY = magnification(height, source.height) || 1;
+    const magX = magnification(width, source.width) || magY;
+    return {
+      name: designator,
+      family: null,
+      bitmap: true,
+      height: source.height * magY,
+      size: 0,
+      scaleX: magX,
+      baseline: source.baseline * magY,
+      cellWidth: 0,
+      glyphs: source.glyphs,
+      space: source.space,
+      magX,
+      magY,
+    };
+  }
+  // A font file that is found takes over; otherwise the designator
+  // keeps its own font
+  const fileFamily =
+    typeof source === "string"
+      ? registeredFile(source)
+      : source && source.type === "truetype"
+      ? source.family
+      : undefined;
+  const matrix = !fileFamily && getBitmapFontMatrix(designator, dpi);
+  let family = fileFamily || registry.get(designator);
+  if (matrix) {
+    family = family || BITMAP_FAMILY;
+    const magY = magnification(height, matrix.height) || 1;
+    const magX = magnification(width, matrix.width) || magY;
+    const baseline = matrix.baseline * magY;
+    const size = Math.round(baseline / BITMAP_CAP_HEIGHT);
+    const glyphWidth = matrix.width * magX;
+    return {
+      name: designator,
+      family,
+      bitmap: true,
+      height: matrix.height * magY,
+      size,
+      scaleX: glyphWidth / (measureFamily(family, "M") * size),
+      baseline,
+      cellWidth: (matrix.width + matrix.gap) * magX,
+    };
+  }
+  const size = height > 0 ? height : 10;
+  return {
+    name: designator,
+    family: family || (designator === "0" ? SCALABLE_FAMILY : DEFAULT_FAMILY),
+    bitmap: false,
+    height: size,
+    size,
+    scaleX: width > 0 ? width / size : 1,
+    baseline: Math.round(size * SCALABLE_BASELINE),
+    cellWidth: 0,
+  };
+}
+
+/** Advance width of text in a family, in em units. */
+function measureFamily(family: string, text: string): number {
+  loadFonts();
+  const reg = faces[family] || faces[DEFAULT_FAMILY];
+  const font = reg.font;
+  let advance = 0;
+  for (const glyph of font.stringToGlyphs(text)) {
+    advance += glyph.advanceWidth || 0;
+  }
+  return advance / font.unitsPerEm;
+}
+
+/**
+ * Measures the width of a line of text in a resolved font, in dots.
+ * Bitmap fonts advance by whole cells, including the gap after the
+ * last character, as on the printer.
+ *
+ * @param {string} text Text to measure
+ * @param {FontMetrics} font Font from resolveFont()
+ * @returns {number} Width in dots
+ */
+export function measureText(text: string, font: FontMetrics): number {
+  if (font.glyphs) {
+    let width = 0;
+    const { space = 0, magX = 1 } = font;
+    for (const ch of String(text)) {
+      const glyph = font.glyphs.get(ch.codePointAt(0)!);
+      width += (glyph ? glyph.advance : space) * magX;
+    }
+    return width;
+  }
+  if (font.bitmap) {
+    return [...String(text)].length * font.cellWidth;
+  }
+  const family = font.family || DEFAULT_FAMILY;
+  return measureFamily(family, String(text)) * font.size * font.scaleX;
 }
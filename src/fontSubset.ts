@@ -0,0 +1,257 @@
+/*
+ * TrueType subsetting for PDF embedding.  A subset keeps only the
+ * glyphs a document prints, renumbered from 1 after .notdef, together
+ * with the components of composite glyphs.  The tables a PDF reader
+ * needs to draw them are kept or rebuilt: the glyph outlines and
+ * their locations, the horizontal metrics, a Windows Unicode cmap for
+ * the characters used and a post table without glyph names.  Layout
+ * tables (GSUB, GPOS, kern and the like) are left out; PDF text is
+ * positioned by the reader from the font's widths.
+ */
+
+// Tables copied from the original font as they are
+const KEPT_TABLES = ["OS/2", "cvt ", "fpgm", "gasp", "name", "prep"];
+
+// Flags of a composite glyph component
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+/** Reads the table directory of a TrueType font. */
+function readTables(data: Buffer): Map<string, Buffer> {
+  const tables = new Map<string, Buffer>();
+  const count = data.readUInt16BE(4);
+  for (let i = 0; i < count; i++) {
+    const entry = 12 + i * 16;
+    const tag = data.toString("latin1", entry, entry + 4);
+    const offset = data.readUInt32BE(entry + 8);
+    const length = data.readUInt32BE(entry + 12);
+    tables.set(tag, data.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+/** Returns a copy of a table; required tables must be present. */
+function requireTable(tables: Map<string, Buffer>, tag: string): Buffer {
+  const table = tables.get(tag);
+  if (!table) {
+    throw new Error(`Font has no ${tag.trim()} table`);
+  }
+  return Buffer.from(table);
+}
+
+/**
+ * Returns the offsets of the component glyph indices of a composite
+ * glyph, or an empty list for a simple glyph.
+ */
+function componentOffsets(glyph: Buffer): number[] {
+  if (glyph.length < 10 || glyph.readInt16BE(0) >= 0) {
+    return [];
+  }
+  const offsets = [];
+  let pos = 10;
+  let flags;
+  do {
+    flags = glyph.readUInt16BE(pos);
+    offsets.push(pos + 2);
+    pos += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+    if (flags & WE_HAVE_A_SCALE) {
+      pos += 2;
+    } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+      pos += 4;
+    } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+      pos += 8;
+    }
+  } while (flags & MORE_COMPONENTS);
+  return offsets;
+}
+
+/** Builds a format 4 cmap with a segment per character. */
+function buildCmap(chars: Map<number, number>): Buffer {
+  const codes = [...chars.keys()]
+    .filter((code) => code < 0xffff)
+    .sort((a, b) => a - b);
+  const segCount = codes.length + 1;
+  const length = 16 + segCount * 8;
+  const sub = Buffer.alloc(length);
+  const pow = 2 ** Math.floor(Math.log2(segCount));
+  sub.writeUInt16BE(4, 0);
+  sub.writeUInt16BE(length, 2);
+  sub.writeUInt16BE(segCount * 2, 6);
+  sub.writeUInt16BE(pow * 2, 8);
+  sub.writeUInt16BE(Math.log2(pow), 10);
+  sub.writeUInt16BE((segCount - pow) * 2, 12);
+  const ends = 14;
+  const starts = ends + segCount * 2 + 2;
+  const deltas = starts + segCount * 2;
+  codes.forEach((code, i) => {
+    sub.writeUInt16BE(code, ends + i * 2);
+    sub.writeUInt16BE(code, starts + i * 2);
+    sub.writeUInt16BE((chars.get(code)! - code) & 0xffff, deltas + i * 2);
+  });
+  // The table ends with a segment for 0xFFFF mapping to .notdef
+  const last = codes.length;
+  sub.writeUInt16BE(0xffff, ends + last * 2);
+  sub.writeUInt16BE(0xffff, starts + last * 2);
+  sub.writeUInt16BE(1, deltas + last * 2);
+  // One encoding record: Windows (3), Unicode BMP (1)
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(1, 2);
+  header.writeUInt16BE(3, 4);
+  header.writeUInt16BE(1, 6);
+  header.writeUInt32BE(12, 8);
+  return Buffer.concat([header, sub]);
+}
+
+/** Sum of a table as big-endian 32-bit words. */
+function checksum(data: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const word =
+      ((data[i] << 24) |
+        ((data[i + 1] || 0) << 16) |
+        ((data[i + 2] || 0) << 8) |
+        (data[i + 3] || 0)) >>>
+      0;
+    sum = (sum + word) >>> 0;
+  }
+  return sum;
+}
+
+/** Assembles a font file from its tables. */
+function writeFont(tables: Map<string, Buffer>): Buffer {
+  const tags = [...tables.keys()].sort();
+  const count = tags.length;
+  const pow = 2 ** Math.floor(Math.log2(count));
+  const header = Buffer.alloc(12 + count * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(count, 4);
+  header.writeUInt16BE(pow * 16, 6);
+  header.writeUInt16BE(Math.log2(pow), 8);
+  header.writeUInt16BE((count - pow) * 16, 10);
+  const chunks = [header];
+  let offset = header.length;
+  tags.forEach((tag, i) => {
+    const table = tables.get(tag)!;
+    const entry = 12 + i * 16;
+    header.write(tag, entry, "latin1");
+    header.writeUInt32BE(checksum(table), entry + 4);
+    header.writeUInt32BE(offset, entry + 8);
+    header.writeUInt32BE(table.length, entry + 12);
+    const padded = Buffer.alloc((table.length + 3) & ~3);
+    table.copy(padded);
+    chunks.push(padded);
+    offset += padded.length;
+  });
+  const font = Buffer.concat(chunks);
+  // The head table's checksum adjustment makes the whole font sum to a
+  // fixed value
+  const head = font.readUInt32BE(12 + tags.indexOf("head") * 16 + 8);
+  font.writeUInt32BE((0xb1b0afba - checksum(font)) >>> 0, head + 8);
+  return font;
+}
+
+/**
+ * Subsets a TrueType font to the characters given.  Throws when the
+ * data is not a TrueType font with glyf outlines.
+ *
+ * @param {Buffer} data Font file contents
+ * @param {Map<number, number>} chars Glyph index in the original font
+ *   of every Unicode code point to keep
+ * @returns {Buffer} Font file holding just those characters
+ */
+export function subsetTrueType(
+  data: Buffer,
+  chars: Map<number, number>
+): Buffer {
+  const tables = readTables(data);
+  const head = requireTable(tables, "head");
+  const hhea = requireTable(tables, "hhea");
+  const maxp = requireTable(tables, "maxp");
+  const hmtx = requireTable(tables, "hmtx");
+  const loca = requireTable(tables, "loca");
+  const glyf = requireTable(tables, "glyf");
+  const post = requireTable(tables, "post");
+  const numGlyphs = maxp.readUInt16BE(4);
+  const longLoca = head.readInt16BE(50) === 1;
+  const glyphAt = (index: number) => {
+    const start = longLoca
+      ? loca.readUInt32BE(index * 4)
+      : loca.readUInt16BE(index * 2) * 2;
+    const end = longLoca
+      ? loca.readUInt32BE(index * 4 + 4)
+      : loca.readUInt16BE(index * 2 + 2) * 2;
+    return glyf.subarray(start, end);
+  };
+  // Collect the glyphs used, with the components of composite glyphs
+  const used = new Set([0]);
+  const pending = [...chars.values()];
+  while (pending.length > 0) {
+    const index = pending.pop()!;
+    if (index >= numGlyphs || used.has(index)) {
+      continue;
+    }
+    used.add(index);
+    const glyph = glyphAt(index);
+    for (const offset of componentOffsets(glyph)) {
+      pending.push(glyph.readUInt16BE(offset));
+    }
+  }
+  const order = [...used].sort((a, b) => a - b);
+  const newIndex = new Map(order.map((index, i) => [index, i]));
+  // Outlines, with composite glyphs pointing at the new indices
+  const numHMetrics = hhea.readUInt16BE(34);
+  const newGlyf: Buffer[] = [];
+  const newLoca = Buffer.alloc((order.length + 1) * 4);
+  const newHmtx = Buffer.alloc(order.length * 4);
+  let offset = 0;
+  order.forEach((index, i) => {
+    const glyph = Buffer.from(glyphAt(index));
+    for (const at of componentOffsets(glyph)) {
+      glyph.writeUInt16BE(newIndex.get(glyph.readUInt16BE(at)) || 0, at);
+    }
+    const padded = Buffer.alloc((glyph.length + 3) & ~3);
+    glyph.copy(padded);
+    newGlyf.push(padded);
+    newLoca.writeUInt32BE(offset, i * 4);
+    offset += padded.length;
+    const metric = Math.min(index, numHMetrics - 1);
+    const lsb =
+      index < numHMetrics
+        ? hmtx.readInt16BE(index * 4 + 2)
+        : hmtx.readInt16BE(numHMetrics * 4 + (index - numHMetrics) * 2);
+    newHmtx.writeUInt16BE(hmtx.readUInt16BE(metric * 4), i * 4);
+    newHmtx.writeInt16BE(lsb, i * 4 + 2);
+  });
+  newLoca.writeUInt32BE(offset, order.length * 4);
+  head.writeUInt32BE(0, 8);
+  head.writeInt16BE(1, 50);
+  hhea.writeUInt16BE(order.length, 34);
+  maxp.writeUInt16BE(order.length, 4);
+  const newPost = Buffer.alloc(32);
+  post.copy(newPost, 0, 0, Math.min(32, post.length));
+  newPost.writeUInt32BE(0x00030000, 0);
+  newPost.fill(0, 16);
+  const cmap = new Map(
+    [...chars].map(([code, index]) => [code, newIndex.get(index) || 0])
+  );
+  const subset = new Map([
+    ["head", head],
+    ["hhea", hhea],
+    ["maxp", maxp],
+    ["hmtx", newHmtx],
+    ["loca", newLoca],
+    ["glyf", Buffer.concat(newGlyf)],
+    ["cmap", buildCmap(cmap)],
+    ["post", newPost],
+  ]);
+  for (const tag of KEPT_TABLES) {
+    const table = tables.get(tag);
+    if (table) {
+      subset.set(tag, table);
+    }
+  }
+  return writeFont(subset);
+}
@@ -0,0 +1,333 @@
+import * as PImage from "pureimage";
+
+import type { ImageToZplOptions } from "./types.js";
+import zlib from "zlib";
+
+/*
+ * Decoder and encoder for Zebra GRF graphics as sent with ~DG and
+ * ^GF.  A GRF image is a 1‑bit bitmap stored row by row, most
+ * significant bit first, where a set bit prints a dot.  The data
+ * arrives in one of several encodings:
+ *
+ *  - ASCII hex, two digits per byte, optionally using the ZPL ASCII
+ *    compression scheme (see expandAsciiHex below).
+ *  - ":Z64:" followed by base64 of zlib deflated data and a CRC.
+ *  - ":B64:" followed by base64 of the raw data and a CRC.
+ *  - Raw binary bytes (^GF with compression type B).
+ */
+
+const HEX_DIGITS = "0123456789ABCDEF";
+
+/**
+ * Returns the repeat count encoded by a ZPL compression character:
+ * G–Y stand for 1–19 and g–z for 20–400 in steps of 20.  Returns 0
+ * for any other character.
+ */
+function repeatCount(ch: string): number {
+  if (ch >= "G" && ch <= "Y") {
+    return ch.charCodeAt(0) - 70;
+  }
+  if (ch >= "g" && ch <= "z") {
+    return (ch.charCodeAt(0) - 102) * 20;
+  }
+  return 0;
+}
+
+/**
+ * Expands ZPL ASCII hex with run‑length compression into bytes.
+ * Besides plain hex digits the data may contain:
+ *
+ *  - repeat counts (G–Y, g–z, summed when combined) applying to the
+ *    hex digit that follows, e.g. "hJF" is 43 × "F";
+ *  - ',' filling the rest of the current row with zeros;
+ *  - '!' filling the rest of the current row with ones;
+ *  - ':' repeating the previous row.
+ *
+ * @param {string} data Compressed hex data
+ * @param {number} bytesPerRow Number of bytes in each bitmap row
+ * @returns {Buffer} Decoded bitmap bytes
+ */
+function expandAsciiHex(data: string, bytesPerRow: number): Buffer {
+  if (!(bytesPerRow > 0)) {
+    return Buffer.alloc(0);
+  }
+  const rowDigits = bytesPerRow * 2;
+  const rows: string[] = [];
+  let row = "";
+  let count = 0;
+  const endRow = () => {
+    rows.push(row);
+    row = "";
+  };
+  for (const raw of data) {
+    const ch = raw.toUpperCase();
+    if (HEX_DIGITS.includes(ch)) {
+      row += ch.repeat(count || 1);
+      count = 0;
+      while (row.length >= rowDigits) {
+        const rest = row.substring(rowDigits);
+        row = row.substring(0, rowDigits);
+        endRow();
+        row = rest;
+      }
+    } else if (repeatCount(raw) > 0) {
+      count += repeatCount(raw);
+    } else if (raw === "," || raw === "!") {
+      row = row.padEnd(rowDigits, raw === "," ? "0" : "F");
+      endRow();
+      count = 0;
+    } else if (raw === ":") {
+      row = rows.length > 0 ? rows[rows.length - 1] : "0".repeat(rowDigits);
+      endRow();
+      count = 0;
+    }
+    // Anything else (whitespace, stray characters) is ignored
+  }
+  if (row.length > 0) {
+    endRow();
+  }
+  return Buffer.from(
+    rows.map((r) => (r.length % 2 ? r + "0" : r)).join(""),
+    "hex"
+  );
+}
+
+/**
+ * Decodes the data of a ~DG or ^GF command into bitmap bytes.
+ *
+ * @param {string} data Graphic data as it appears in the command
+ * @param {number} bytesPerRow Number of bytes in each bitmap row
+ * @param {string} [format='A'] ^GF compression type: 'A' (ASCII hex)
+ *   or 'B' (binary).  Z64 and B64 data is recognised in either case.
+ * @returns {Buffer} Decoded bitmap bytes
+ */
+export function decodeGrfData(
+  data: string,
+  bytesPerRow: number,
+  format = "A"
+): Buffer {
+  const text = String(data || "").trim();
+  const encoded = /^:(Z64|B64):([^:]*)/i.exec(text);
+  if (encoded) {
+    const bytes = Buffer.from(encoded[2], "base64");
+    return encoded[1].toUpperCase() === "Z64" ? zlib.inflateSync(bytes) : bytes;
+  }
+  if (String(format).toUpperCase() === "B") {
+    return Buffer.from(String(data || ""), "latin1");
+  }
+  return expandAsciiHex(text, bytesPerRow);
+}
+
+/**
+ * Converts GRF bitmap bytes into a pureimage bitmap with black dots
+ * on a transparent background, so that graphics overlap other
+ * elements the way they do on a label.  Missing trailing bytes are
+ * treated as blank.
+ *
+ * @param {Buffer} bytes Bitmap bytes, row by row
+ * @param {number} bytesPerRow Number of bytes in each bitmap row
+ * @param {number} [totalBytes] Declared size; defaults to the data size
+ * @returns {PImage.Bitmap | null} A pureimage bitmap, or null when the
+ *   size is unusable
+ */
+export function grfToBitmap(
+  bytes: Buffer,
+  bytesPerRow: number,
+  totalBytes?: number
+): PImage.Bitmap | null {
+  const total = totalBytes && totalBytes > 0 ? totalBytes : bytes.length;
+  if (!(bytesPerRow > 0) || total <= 0) {
+    return null;
+  }
+  const width = bytesPerRow * 8;
+  const height = Math.ceil(total / bytesPerRow);
+  const img = PImage.make(width, height);
+  const data = img.data;
+  data.fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const byte = bytes[y * bytesPerRow + (x >> 3)] || 0;
+      if (byte & (0x80 >> (x & 7))) {
+        // Black, opaque; RGB is already zero
+        data[(y * width + x) * 4 + 3] = 255;
+      }
+    }
+  }
+  return img;
+}
+
+// 4x4 Bayer matrix used for ordered dithering
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+/**
+ * Converts a bitmap into 1-bit GRF bytes.  Pixels are composited over
+ * white and turned into dots when their luminance falls below the
+ * threshold.  Dithering spreads the quantisation error so that
+ * photographs and gradients keep their tone:
+ *
+ *  - 'floyd-steinberg' diffuses the error to neighbouring pixels;
+ *  - 'ordered' offsets the threshold with a 4x4 Bayer matrix, which
+ *    gives a regular pattern that survives further scaling better.
+ *
+ * @param {PImage.Bitmap} bitmap A pureimage bitmap (RGBA)
+ * @param {{threshold?: number, dither?: 'none'|'floyd-steinberg'|'ordered'}} [options]
+ *   `threshold` is a luminance between 0 and 255 (default 128)
+ * @returns {{bytes: Buffer, bytesPerRow: number, totalBytes: number}}
+ */
+export function bitmapToGrf(
+  bitmap: PImage.Bitmap,
+  options: ImageToZplOptions = {}
+): { bytes: Buffer; bytesPerRow: number; totalBytes: number } {
+  const { width, height, data } = bitmap;
+  const threshold = options.threshold ?? 128;
+  const dither = options.dither || "none";
+  if (!["none", "floyd-steinberg", "ordered"].includes(dither)) {
+    throw new Error(`Unsupported dither mode: ${dither}`);
+  }
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const a = data[i * 4 + 3] / 255;
+    const l =
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    lum[i] = l * a + 255 * (1 - a);
+  }
+  const bytesPerRow = Math.ceil(width / 8);
+  const bytes = Buffer.alloc(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let limit = threshold;
+      if (dither === "ordered") {
+        limit += ((BAYER_4X4[y % 4][x % 4] + 0.5) / 16 - 0.5) * 255;
+      }
+      const dark = lum[i] < limit;
+      if (dark) {
+        bytes[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+      if (dither === "floyd-steinberg") {
+        const error = lum[i] - (dark ? 0 : 255);
+        if (x + 1 < width) {
+          lum[i + 1] += (error * 7) / 16;
+        }
+        if (y + 1 < height) {
+          if (x > 0) {
+            lum[i + width - 1] += (error * 3) / 16;
+          }
+          lum[i + width] += (error * 5) / 16;
+          if (x + 1 < width) {
+            lum[i + width + 1] += error / 16;
+          }
+        }
+      }
+    }
+  }
+  return { bytes, bytesPerRow, totalBytes: bytes.length };
+}
+
+/**
+ * CRC-16/CCITT (polynomial 0x1021, initial value 0) as used for the
+ * checksum that ends Z64 and B64 data.
+ */
+function crc16(text: string): number {
+  let crc = 0;
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** Encodes a run of one hex digit with ZPL repeat count characters. */
+function compressRun(digit: string, length: number): string {
+  let out = "";
+  let remaining = length;
+  while (remaining > 0) {
+    const n = Math.min(remaining, 400);
+    remaining -= n;
+    if (n === 1) {
+      out += digit;
+      continue;
+    }
+    let count = "";
+    if (n >= 20) {
+      count += String.fromCharCode(102 + Math.floor(n / 20));
+    }
+    if (n % 20 > 0) {
+      count += String.fromCharCode(70 + (n % 20));
+    }
+    out += count + digit;
+  }
+  return out;
+}
+
+/**
+ * Applies ZPL ASCII compression to hex rows: repeated rows become
+ * ':', trailing zeros ',', trailing ones '!' and runs of a digit are
+ * prefixed with a repeat count.  The inverse of expandAsciiHex().
+ */
+function compressAsciiHex(hex: string, bytesPerRow: number): string {
+  const rowDigits = bytesPerRow * 2;
+  let out = "";
+  let previous = null;
+  for (let start = 0; start < hex.length; start += rowDigits) {
+    const row = hex.substring(start, start + rowDigits);
+    if (row === previous) {
+      out += ":";
+      continue;
+    }
+    previous = row;
+    let body = row;
+    let terminator = "";
+    const trailing = /(0+|F+)$/.exec(row);
+    if (trailing && trailing[0].length > 1) {
+      body = row.substring(0, row.length - trailing[0].length);
+      terminator = trailing[0][0] === "0" ? "," : "!";
+    }
+    for (let i = 0; i < body.length; ) {
+      let j = i;
+      while (j < body.length && body[j] === body[i]) {
+        j++;
+      }
+      out += compressRun(body[i], j - i);
+      i = j;
+    }
+    out += terminator;
+  }
+  return out;
+}
+
+/**
+ * Encodes GRF bitmap bytes as command data.
+ *
+ * @param {Buffer} bytes Bitmap bytes, row by row
+ * @param {number} bytesPerRow Number of bytes in each bitmap row
+ * @param {'none'|'ascii'|'z64'} [compression='none'] Plain hex, ZPL
+ *   ASCII compressed hex or zlib compressed base64 (Z64)
+ * @returns {string} Data ready to follow the command parameters
+ */
+export function encodeGrfData(
+  bytes: Buffer,
+  bytesPerRow: number,
+  compression = "none"
+): string {
+  if (compression === "z64") {
+    const encoded = zlib.deflateSync(bytes).toString("base64");
+    const crc = crc16(encoded).toString(16).toUpperCase().padStart(4, "0");
+    return `:Z64:${encoded}:${crc}`;
+  }
+  const hex = bytes.toString("hex").toUpperCase();
+  if (compression === "ascii") {
+    return compressAsciiHex(hex, bytesPerRow);
+  }
+  if (compression !== "none") {
+    throw new Error(`Unsupported compression: ${compression}`);
+  }
+  return hex;
+}
@@ -0,0 +1,2 @@
+// opentype.js ships without type declarations
+declare module "opentype.js";
@@ -0,0 +1,107 @@
+/*
+ * Field data of QR codes (^BQ).  ZPL does not encode the data of a QR
+ * code as it is: the field starts with the error correction level and
+ * the input mode, and in manual input mode every piece of data is
+ * preceded by its character mode.  Structured append symbols (mixed
+ * mode) carry a header with their position in the sequence as well.
+ *
+ *   Normal:  ^FD<level><input mode>,<data>
+ *   Mixed:   ^FDD<position><total><parity>,<level><input mode>,<data>
+ */
+
+// Error correction levels, from the most to the least redundant
+const LEVELS = ["H", "Q", "M", "L"];
+
+/**
+ * Reads the data of manual input mode.  Every piece starts with its
+ * character mode: N (numeric), A (alphanumeric), K (Kanji) or B
+ * (bytes), which is followed by the number of bytes as four digits.
+ * Mixed mode separates the pieces with commas; in normal mode there is
+ * a single piece.
+ *
+ * @returns {Array<{mode: string, text: string}>} Pieces of data
+ */
+function readManual(
+  data: string,
+  mixed: boolean
+): Array<{ mode: string; text: string }> {
+  const segments: Array<{ mode: string; text: string }> = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const mode = data[pos].toUpperCase();
+    pos++;
+    let text;
+    if (mode === "B" && /^\d{4}/.test(data.substring(pos))) {
+      const count = parseInt(data.substring(pos, pos + 4), 10);
+      text = data.substring(pos + 4, pos + 4 + count);
+      pos += 4 + text.length;
+    } else {
+      const end = mixed ? data.indexOf(",", pos) : -1;
+      text = data.substring(pos, end < 0 ? data.length : end);
+      pos += text.length;
+    }
+    segments.push({ mode, text });
+    if (data[pos] === ",") {
+      pos++;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Parses the field data of a QR code.  Data without the
+ * "<level><input mode>," prefix is encoded as it is in automatic mode.
+ *
+ * @param {string} data Field data
+ * @param {string} [defaultLevel] Error correction level used when the
+ *   data does not name a valid one (default Q)
+ * @returns {{level: string, input: 'A'|'M', text: string, segments: Array<{mode: string, text: string}>, kanji: boolean, structuredAppend: {position: number, total: number, parity: number}|null}}
+ *   `text` is the data to encode and `segments` its pieces with their
+ *   character modes ('A' for automatic mode)
+ */
+export function parseQrData(data: string, defaultLevel = "Q") {
+  let rest = String(data);
+  let structuredAppend = null;
+  const header = /^D(\d{2})(\d{2})([0-9A-Fa-f]{2}),/.exec(rest);
+  if (header) {
+    structuredAppend = {
+      position: parseInt(header[1], 10),
+      total: parseInt(header[2], 10),
+      parity: parseInt(header[3], 16),
+    };
+    rest = rest.substring(header[0].length);
+  }
+  const prefix = /^([A-Za-z]?)([AaMm]?),/.exec(rest);
+  if (!prefix) {
+    return {
+      level: defaultLevel,
+      input: "A",
+      text: rest,
+      segments: [{ mode: "A", text: rest }],
+      kanji: false,
+      structuredAppend,
+    };
+  }
+  let letter = prefix[1].toUpperCase();
+  let mode = prefix[2].toUpperCase();
+  if (!mode && letter === "A") {
+    // Only the automatic input mode is given
+    mode = letter;
+    letter = "";
+  }
+  const level = LEVELS.includes(letter) ? letter : defaultLevel;
+  const input = mode === "M" ? "M" : "A";
+  rest = rest.substring(prefix[0].length);
+  const segments =
+    input === "M"
+      ? readManual(rest, structuredAppend !== null)
+      : [{ mode: "A", text: rest }];
+  return {
+    level,
+    input,
+    text: segments.map((segment) => segment.text).join(""),
+    segments,
+    kanji: segments.some((segment) => segment.mode === "K"),
+    structuredAppend,
+  };
+}
@@ -0,0 +1,148 @@
+/*
+ * Serialization rules for ^SN (serialization data) and ^SF
+ * (serialization field).  Both describe how the data of a field
+ * changes from one printed copy to the next; the functions here work
+ * out the data for a given step directly instead of replaying every
+ * increment.
+ */
+
+import type { Serialization } from "./types.js";
+
+// Characters available at a ^SF mask position, in counting order
+const MASK_ALPHABETS: Record<string, string> = {
+  D: "0123456789",
+  d: "0123456789",
+  H: "0123456789ABCDEF",
+  h: "0123456789abcdef",
+  O: "01234567",
+  o: "01234567",
+  A: "ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  a: "abcdefghijklmnopqrstuvwxyz",
+  N: "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ",
+  n: "0123456789abcdefghijklmnopqrstuvwxyz",
+};
+
+/**
+ * Applies ^SN serialization: the right‑most number in the data is
+ * increased by `increment` for every step (a negative increment counts
+ * down) while any text around it stays as it is.  The number keeps
+ * the width of the starting value, padded with zeros when `zeros` is
+ * set and with spaces otherwise, and wraps around within that width.
+ *
+ * @param {string} value Starting value
+ * @param {number} increment Change per step
+ * @param {boolean} zeros Whether to pad with leading zeros
+ * @param {number} step Number of increments to apply
+ * @returns {string} Field data after `step` increments
+ */
+export function serialNumber(
+  value: string,
+  increment: number,
+  zeros: boolean,
+  step: number
+): string {
+  const match = /^(.*?)(\d+)(\D*)$/.exec(value);
+  if (!match) {
+    return value;
+  }
+  const [, prefix, digits, suffix] = match;
+  const range = 10n ** BigInt(digits.length);
+  let next = (BigInt(digits) + BigInt(increment) * BigInt(step)) % range;
+  if (next < 0n) {
+    next += range;
+  }
+  const text = next.toString().padStart(digits.length, zeros ? "0" : " ");
+  return prefix + text + suffix;
+}
+
+/**
+ * Applies ^SF serialization.  The mask is aligned with the right end
+ * of the data and gives every position a character set: D decimal, H
+ * hexadecimal, O octal, A alphabetic, N alphanumeric (upper case
+ * letters for the capital mask character, lower case otherwise) and %
+ * for positions that are left alone.  The increment string is aligned
+ * the same way and added once per step, carrying from right to left
+ * across the masked positions; characters outside a position's set
+ * count as zero.  An increment starting with a minus sign is
+ * subtracted instead, counting down and wrapping around below zero.
+ *
+ * @param {string} value Starting value
+ * @param {string} mask Serialization mask
+ * @param {string} [increment] Increment string (default: one)
+ * @param {number} step Number of increments to apply
+ * @returns {string} Field data after `step` increments
+ */
+export function serialField(
+  value: string,
+  mask: string,
+  increment: string | undefined,
+  step: number
+): string {
+  const chars = [...value];
+  const offset = chars.length - mask.length;
+  // Masked positions from right to left, with their character sets
+  const positions = [];
+  for (let m = mask.length - 1; m >= 0; m--) {
+    const alphabet = MASK_ALPHABETS[mask[m]];
+    if (alphabet && offset + m >= 0) {
+      positions.push({ index: offset + m, mask: m, alphabet });
+    }
+  }
+  if (positions.length === 0) {
+    return value;
+  }
+  const negative = !!increment && increment.startsWith("-");
+  const incChars = increment ? [...increment.replace(/^-/, "")] : null;
+  const incOffset = incChars ? incChars.length - mask.length : 0;
+  let current = 0n;
+  let delta = 0n;
+  let weight = 1n;
+  for (const p of positions) {
+    const radix = BigInt(p.alphabet.length);
+    const digit = Math.max(0, p.alphabet.indexOf(chars[p.index]));
+    current += BigInt(digit) * weight;
+    if (incChars) {
+      const ch = incChars[incOffset + p.mask];
+      delta += BigInt(Math.max(0, p.alphabet.indexOf(ch))) * weight;
+    }
+    weight *= radix;
+  }
+  if (!incChars) {
+    delta = 1n;
+  }
+  if (negative) {
+    delta = -delta;
+  }
+  let next = (current + delta * BigInt(step)) % weight;
+  if (next < 0n) {
+    next += weight;
+  }
+  for (const p of positions) {
+    const radix = BigInt(p.alphabet.length);
+    chars[p.index] = p.alphabet[Number(next % radix)];
+    next /= radix;
+  }
+  return chars.join("");
+}
+
+/**
+ * Returns the data of a serialized field for a given step.
+ *
+ * @param {string} value Field data of the first copy
+ * @param {Serialization} serial Serialization recorded by the analyser
+ * @param {number} step Number of increments to apply
+ * @returns {string} Field data for that step
+ */
+export function serializeField(
+  value: string,
+  serial: Serialization,
+  step: number
+): string {
+  if (step === 0) {
+    return value;
+  }
+  if (serial.type === "SN") {
+    return serialNumber(value, serial.increment, serial.zeros, step);
+  }
+  return serialField(value, serial.mask, serial.increment, step);
+}
@@ -0,0 +1,194 @@
+/*
+ * Layout of text fields in field blocks (^FB) and text blocks (^TB).
+ * The data is broken into lines with the measured widths of the
+ * field's font, the way the printer fills a block, and every line is
+ * positioned relative to the top left corner of the block.
+ */
+import type {
+  FieldBlock,
+  FontMetrics,
+  TextBlock,
+  TextLayout,
+  TextRun,
+} from "./types.js";
+import { measureText } from "./font.js";
+
+/**
+ * Splits field block data into paragraphs.  Within a block "\&"
+ * starts a new line and "\\" stands for a single backslash.
+ *
+ * @param {string} text Field data
+ * @returns {string[]} Paragraphs
+ */
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\" && text[i + 1] === "&") {
+      paragraphs.push(current);
+      current = "";
+      i++;
+    } else if (ch === "\\" && text[i + 1] === "\\") {
+      current += "\\";
+      i++;
+    } else {
+      current += ch;
+    }
+  }
+  paragraphs.push(current);
+  return paragraphs;
+}
+
+/**
+ * Breaks a word that is wider than the line on its own into pieces
+ * that fit, one character at a time.  Every piece holds at least one
+ * character.
+ */
+function breakWord(word: string, font: FontMetrics, width: number): string[] {
+  const pieces: string[] = [];
+  let piece = "";
+  for (const ch of word) {
+    if (piece && measureText(piece + ch, font) > width) {
+      pieces.push(piece);
+      piece = ch;
+    } else {
+      piece += ch;
+    }
+  }
+  pieces.push(piece);
+  return pieces;
+}
+
+/**
+ * Wraps the paragraphs into lines.  Words are separated by spaces and
+ * a line breaks before the first word that does not fit; a word that
+ * does not fit on a line of its own is broken between characters.
+ * Every line but the first is narrower by the hanging indent.
+ *
+ * @returns {Array<{text: string, last: boolean}>} Lines, `last` marking
+ *   the final line of a paragraph
+ */
+function wrapLines(
+  paragraphs: string[],
+  font: FontMetrics,
+  width: number,
+  indent: number
+): Array<{ text: string; last: boolean }> {
+  const lines: Array<{ text: string; last: boolean }> = [];
+  const available = () =>
+    width > 0 ? width - (lines.length > 0 ? indent : 0) : Infinity;
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(" ").filter((word) => word.length > 0);
+    let line = "";
+    for (const word of words) {
+      const prospective = line ? `${line} ${word}` : word;
+      if (measureText(prospective, font) <= available()) {
+        line = prospective;
+        continue;
+      }
+      if (line) {
+        lines.push({ text: line, last: false });
+        line = "";
+      }
+      if (measureText(word, font) <= available()) {
+        line = word;
+        continue;
+      }
+      const pieces = breakWord(word, font, available());
+      pieces.slice(0, -1).forEach((piece) => {
+        lines.push({ text: piece, last: false });
+      });
+      line = pieces[pieces.length - 1];
+    }
+    lines.push({ text: line, last: true });
+  }
+  return lines;
+}
+
+/**
+ * Lays out the data of a text field.  Without a block the data is a
+ * single line at the origin.
+ *
+ * In a field block (`block.type` 'FB') the lines are `block.width`
+ * wide and `block.lineSpacing` dots are added between them.  Lines
+ * after the first are indented by `block.indent` and aligned to the
+ * left, centre or right edge ('L', 'C', 'R'), or justified ('J') by
+ * widening the spaces of every line that does not end a paragraph.
+ * The block holds `block.lines` lines; text that needs more lines is
+ * printed over the last line, as the printer does.
+ *
+ * A text block (`block.type` 'TB') is `block.width` dots wide and
+ * `block.height` dots high.  Its lines are left aligned and the lines
+ * that do not fit into the height are dropped.
+ *
+ * @param {string} text Field data
+ * @param {FontMetrics} font Font of the field
+ * @param {FieldBlock|TextBlock|null} [block] Block settings of the field
+ * @returns {TextLayout}
+ *   Size of the block in dots and the pieces of text to draw.  Every
+ *   run is placed by the top left corner of its line; justified lines
+ *   are drawn a word at a time.
+ */
+export function layoutText(
+  text: string,
+  font: FontMetrics,
+  block?: FieldBlock | TextBlock | null
+): TextLayout {
+  const value = String(text || "");
+  if (!block) {
+    return {
+      width: measureText(value, font),
+      height: font.height,
+      runs: [{ text: value, x: 0, y: 0 }],
+    };
+  }
+  const width = block.width > 0 ? block.width : 0;
+  const indent = block.type === "FB" ? block.indent || 0 : 0;
+  const spacing = block.type === "FB" ? block.lineSpacing || 0 : 0;
+  const lineHeight = font.height + spacing;
+  const lines = wrapLines(splitParagraphs(value), font, width, indent);
+  let rows;
+  if (block.type === "TB") {
+    rows = Math.floor(block.height / font.height);
+  } else {
+    rows = block.lines > 0 ? block.lines : 1;
+  }
+  const align = block.type === "FB" ? block.align || "L" : "L";
+  const runs: TextRun[] = [];
+  let blockWidth = width;
+  lines.forEach((line, index) => {
+    if (index >= rows && block.type === "TB") {
+      return;
+    }
+    const x = index > 0 ? indent : 0;
+    const y = Math.min(index, rows - 1) * lineHeight;
+    const lineWidth = measureText(line.text, font);
+    const room = width > 0 ? width - x - lineWidth : 0;
+    blockWidth = Math.max(blockWidth, x + lineWidth);
+    const words = line.text.split(" ");
+    if (align === "J" && !line.last && words.length > 1 && room > 0) {
+      // Spread the remaining room evenly over the gaps between words
+      const gap = measureText(" ", font) + room / (words.length - 1);
+      let pen = x;
+      for (const word of words) {
+        runs.push({ text: word, x: pen, y });
+        pen += measureText(word, font) + gap;
+      }
+      return;
+    }
+    let offset = 0;
+    if (align === "C") {
+      offset = room / 2;
+    } else if (align === "R") {
+      offset = room;
+    }
+    runs.push({ text: line.text, x: x + offset, y });
+  });
+  const used = Math.min(lines.length, rows);
+  return {
+    width: blockWidth,
+    height: Math.max(0, used * lineHeight - spacing),
+    runs,
+  };
+}
@@ -0,0 +1,107 @@
+/*
+ * Minimal multi‑page TIFF writer.  Each page is stored as an
+ * uncompressed 8‑bit greyscale image in a single strip, which every
+ * TIFF reader understands.  Only the baseline tags required for
+ * greyscale images are written.
+ */
+
+import type { Bitmap } from "./types.js";
+
+// Field types used in the image file directory
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+
+// Default resolution written into each page (8 dots/mm)
+const DEFAULT_DPI = 203;
+
+/**
+ * Converts an RGBA pureimage bitmap into 8‑bit greyscale pixels.
+ * Transparent pixels are composited over white.
+ *
+ * @param {Bitmap} bitmap An RGBA bitmap
+ * @returns {Buffer} One byte per pixel, row by row
+ */
+function toGreyscale(bitmap: Bitmap): Buffer {
+  const { width, height, data } = bitmap;
+  const out = Buffer.alloc(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const a = data[i * 4 + 3] / 255;
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    out[i] = Math.round(lum * a + 255 * (1 - a));
+  }
+  return out;
+}
+
+/**
+ * Encodes one or more bitmaps as a multi‑page TIFF document with one
+ * page per bitmap, in order.
+ *
+ * @param {Bitmap[]} bitmaps RGBA bitmaps, one per page
+ * @param {number} [dpi=203] Resolution recorded for every page
+ * @returns {Buffer} TIFF file data
+ */
+export function encodeTiff(bitmaps: Bitmap[], dpi = DEFAULT_DPI): Buffer {
+  const entryCount = 11;
+  const ifdSize = 2 + entryCount * 12 + 4;
+  // Each page is laid out as: pixels, IFD, X/Y resolution rationals
+  const pages = bitmaps.map(toGreyscale);
+  let total = 8;
+  for (const pixels of pages) {
+    total += pixels.length + (pixels.length % 2) + ifdSize + 16;
+  }
+  const buf = Buffer.alloc(total);
+  // Little endian header
+  buf.write("II", 0, "ascii");
+  buf.writeUInt16LE(42, 2);
+  let offset = 8;
+  let nextPointer = 4;
+  pages.forEach((pixels, index) => {
+    const { width, height } = bitmaps[index];
+    const dataOffset = offset;
+    pixels.copy(buf, dataOffset);
+    offset += pixels.length + (pixels.length % 2);
+    const ifdOffset = offset;
+    const resOffset = ifdOffset + ifdSize;
+    // link the previous IFD (or the header) to this one
+    buf.writeUInt32LE(ifdOffset, nextPointer);
+    buf.writeUInt16LE(entryCount, ifdOffset);
+    const entries = [
+      [256, LONG, 1, width], // ImageWidth
+      [257, LONG, 1, height], // ImageLength
+      [258, SHORT, 1, 8], // BitsPerSample
+      [259, SHORT, 1, 1], // Compression: none
+      [262, SHORT, 1, 1], // PhotometricInterpretation: BlackIsZero
+      [273, LONG, 1, dataOffset], // StripOffsets
+      [277, SHORT, 1, 1], // SamplesPerPixel
+      [278, LONG, 1, height], // RowsPerStrip
+      [279, LONG, 1, pixels.length], // StripByteCounts
+      [282, RATIONAL, 1, resOffset], // XResolution
+      [283, RATIONAL, 1, resOffset + 8], // YResolution
+    ];
+    let p = ifdOffset + 2;
+    for (const [tag, type, count, value] of entries) {
+      buf.writeUInt16LE(tag, p);
+      buf.writeUInt16LE(type, p + 2);
+      buf.writeUInt32LE(count, p + 4);
+      if (type === SHORT) {
+        buf.writeUInt16LE(value, p + 8);
+      } else {
+        buf.writeUInt32LE(value, p + 8);
+      }
+      p += 12;
+    }
+    nextPointer = p;
+    buf.writeUInt32LE(0, nextPointer);
+    // ResolutionUnit defaults to inches, so the rationals are dpi/1
+    buf.writeUInt32LE(Math.round(dpi), resOffset);
+    buf.writeUInt32LE(1, resOffset + 4);
+    buf.writeUInt32LE(Math.round(dpi), resOffset + 8);
+    buf.writeUInt32LE(1, resOffset + 12);
+    offset = resOffset + 16;
+  });
+  return buf;
+}
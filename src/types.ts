@@ -0,0 +1,537 @@
+/*
+ * The label model produced by analyze() and drawn by the renderer, and
+ * the options of the public functions.  Coordinates and sizes are in
+ * printer dots.  Elements are told apart by their `type`.
+ */
+
+/**
+ * An RGBA bitmap with four bytes per dot, row by row.  The renderer
+ * draws into pureimage bitmaps, which have this shape.
+ */
+export interface Bitmap {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** Rotation of a field: normal, rotated 90°, inverted 180° or bottom up. */
+export type Orientation = "N" | "R" | "I" | "B";
+
+/**
+ * What the position of a field refers to: the top left corner (^FO)
+ * or, for text, the baseline (^FT).
+ */
+export type OriginType = "top-left" | "baseline";
+
+/** Machine readable codes of diagnostics (see diagnostics.ts). */
+export type DiagnosticCode =
+  | "unknown-command"
+  | "unsupported-option"
+  | "missing-format"
+  | "recursive-format"
+  | "missing-graphic"
+  | "invalid-graphic"
+  | "invalid-font"
+  | "invalid-barcode-data"
+  | "quantity-limit";
+
+/** A problem found while analysing or rendering a label. */
+export interface Diagnostic {
+  severity: "warning" | "error";
+  code: DiagnosticCode;
+  message: string;
+  /** Text of the command at fault */
+  command: string | null;
+  /** Character offset of the command in the ZPL document */
+  offset: number | null;
+  /** Index of the label the command belongs to */
+  label: number | null;
+}
+
+/** A position in a ZPL document. */
+export interface SourcePosition {
+  /** Character offset (index into the string) */
+  offset: number;
+  /** Offset in the UTF‑8 encoded document */
+  byteOffset: number;
+  /** 1‑based line number */
+  line: number;
+  /** 1‑based column, in characters */
+  column: number;
+}
+
+/** The part of a ZPL document from `start` up to, not including, `end`. */
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/** A command of a ZPL document, as split by tokenizeZpl(). */
+export interface ZplCommand {
+  /** Command text including its leading ^ or ~ */
+  text: string;
+  /** Character offset in the document, null for added commands */
+  offset: number | null;
+  /** Where the command lies in the document, null for added commands */
+  range: SourceRange | null;
+}
+
+/** A command of a ZPL document, as reported in diagnostics. */
+export interface CommandSource {
+  /** Command text, e.g. ^FD or ^GB */
+  command: string;
+  /** Character offset in the ZPL document, null for recalled data */
+  offset: number | null;
+  /**
+   * Index of the label (^XA...^XZ) in the document, from 0; the copies
+   * of expandQuantity share the index of their label
+   */
+  label: number;
+}
+
+/** The commands an element was created from. */
+export interface ElementSource extends CommandSource {
+  /**
+   * From the start of the first to the end of the last command of the
+   * field, null when none of them is part of the document.  A font
+   * selected before the field began is not included.
+   */
+  range: SourceRange | null;
+  /**
+   * The commands of the field in document order, such as ^FO, ^A, ^B
+   * and ^FD
+   */
+  commands: Array<{ command: string; range: SourceRange | null }>;
+}
+
+/** A character of a bitmap font downloaded with ~DB. */
+export interface BitmapGlyph {
+  height: number;
+  width: number;
+  /** Offset from the pen, and from the baseline up to the top row */
+  x: number;
+  y: number;
+  /** Distance the pen moves on after the character */
+  advance: number;
+  /** GRF bitmap of the character */
+  bytes: Buffer;
+  bytesPerRow: number;
+}
+
+/** Bitmap font downloaded with ~DB, as returned by decodeBitmapFont(). */
+export interface BitmapFont {
+  type: "bitmap";
+  height: number;
+  width: number;
+  baseline: number;
+  space: number;
+  glyphs: Map<number, BitmapGlyph>;
+}
+
+/** A font downloaded by a label: a ~DB bitmap font or a TrueType font. */
+export type DownloadedFont = BitmapFont | { type: "truetype"; family: string };
+
+/** Font of a text field, as returned by resolveFont(). */
+export interface FontMetrics {
+  name: string;
+  family: string | null;
+  bitmap: boolean;
+  height: number;
+  /** Em size to draw the glyphs at */
+  size: number;
+  /** Horizontal stretch of the glyphs */
+  scaleX: number;
+  /** Distance from the top of the text to its baseline */
+  baseline: number;
+  /** Advance of every character of a resident bitmap font, or 0 */
+  cellWidth: number;
+  glyphs?: Map<number, BitmapGlyph>;
+  space?: number;
+  magX?: number;
+  magY?: number;
+}
+
+/** Field block (^FB) of a text field. */
+export interface FieldBlock {
+  type: "FB";
+  width: number;
+  lines: number;
+  lineSpacing: number;
+  align: "L" | "C" | "R" | "J";
+  indent: number;
+}
+
+/** Text block (^TB) of a text field. */
+export interface TextBlock {
+  type: "TB";
+  orientation: Orientation | null;
+  width: number;
+  height: number;
+}
+
+/** Serialization of a field (^SN, ^SF), applied per printed copy. */
+export type Serialization =
+  | { type: "SN"; increment: number; zeros: boolean }
+  | { type: "SF"; mask: string; increment?: string };
+
+/** A graphic downloaded with ~DG or given inline with ^GF. */
+export interface GrfGraphic {
+  type: "grf";
+  /** Data format: A (hex), B (binary) or C (compressed binary) */
+  format?: string;
+  totalBytes: number;
+  bytesPerRow: number;
+  dataString: string;
+}
+
+/** A PNG image downloaded with ~DY. */
+export interface PngGraphic {
+  type: "png";
+  data: Buffer;
+}
+
+/** A downloaded image whose data could not be read. */
+export interface RawGraphic {
+  type?: undefined;
+  data?: Buffer;
+  dataString?: string;
+}
+
+export type Graphic = GrfGraphic | PngGraphic | RawGraphic;
+
+/** Properties shared by every element. */
+export interface BaseElement {
+  x: number;
+  y: number;
+  /** Printed reversed (^FR, ^LR) */
+  reverse: boolean;
+  source?: ElementSource;
+}
+
+/** Text field (^A, ^FD). */
+export interface TextElement extends BaseElement {
+  type: "text";
+  text: string;
+  height: number;
+  width: number;
+  /** Font designator */
+  fontName: string;
+  font: FontMetrics;
+  orientation: Orientation;
+  originType: OriginType;
+  block: FieldBlock | TextBlock | null;
+  serial?: Serialization;
+}
+
+/**
+ * Settings of a barcode symbology.  Those that bwip-js does not know
+ * are applied by the barcode drawer; the others are passed to bwip-js
+ * as they are.
+ */
+export interface BarcodeOptions {
+  /** Code 128 mode (N, U, A or D), or MaxiCode mode (2 to 6) */
+  mode?: string | number;
+  /** Add the check digit of the symbology (Code 128, Code 39, ...) */
+  checkDigit?: boolean;
+  /** Print the check digit in the UPC interpretation line */
+  printCheckDigit?: boolean;
+  /** Codabar start and stop characters (A to D) */
+  start?: string;
+  stop?: string;
+  /** Number of Code 11 check digits */
+  checkDigits?: number;
+  /** QR Code model, error correction level (H, Q, M or L) and mask */
+  model?: number;
+  level?: string;
+  mask?: number;
+  /** Gap above a QR Code symbol, in dots */
+  topMargin?: number;
+  /** Height of the rows of a Codablock F symbol, in dots */
+  rowHeightDots?: number;
+  /** Module size of 2D symbols */
+  scale?: number;
+  /** Bar height of symbologies with their own units, in millimetres */
+  height?: number;
+  // Options of bwip-js
+  ccversion?: string;
+  includecheck?: boolean;
+  checktype?: string;
+  includecheckintext?: boolean;
+  securitylevel?: number;
+  eclevel?: number;
+  columns?: number;
+  rows?: number;
+  rowheight?: number;
+  rowmult?: number;
+  truncated?: boolean;
+  format?: string;
+  layers?: number;
+  readerinit?: boolean;
+  sam?: number;
+  segments?: number;
+}
+
+/** Barcode field (^B, ^FD). */
+export interface BarcodeElement extends BaseElement {
+  type: "barcode";
+  /** bwip-js encoder, e.g. 'code128' or 'qrcode' */
+  codeType: string;
+  text: string;
+  /** Bar height */
+  height: number;
+  /** Width of symbols printed at a fixed size, such as MaxiCode */
+  width?: number;
+  /** Width of the narrow bar or module (^BY) */
+  moduleWidth: number;
+  /** Wide to narrow bar ratio (^BY) */
+  ratio: number;
+  /** Settings of the symbology, such as check digits or QR model */
+  options: BarcodeOptions;
+  orientation: Orientation;
+  printInterpretation?: boolean;
+  printAbove?: boolean;
+  originType: OriginType;
+  serial?: Serialization;
+}
+
+/** Graphic box (^GB). */
+export interface BoxElement extends BaseElement {
+  type: "box";
+  width: number;
+  height: number;
+  thickness: number;
+  /** Line colour: B (black) or W (white) */
+  color: string;
+  /** Corner rounding degree, 0 (square) to 8 */
+  rounding: number;
+}
+
+/** Graphic circle (^GC). */
+export interface CircleElement extends BaseElement {
+  type: "circle";
+  diameter: number;
+  thickness: number;
+  color: string;
+}
+
+/** Graphic ellipse (^GE). */
+export interface EllipseElement extends BaseElement {
+  type: "ellipse";
+  width: number;
+  height: number;
+  thickness: number;
+  color: string;
+}
+
+/** Graphic diagonal line (^GD). */
+export interface DiagonalLineElement extends BaseElement {
+  type: "diagonal";
+  width: number;
+  height: number;
+  thickness: number;
+  color: string;
+  /** Leaning to the left (top left to bottom right) or the right */
+  direction: "L" | "R";
+}
+
+/** Graphic symbol (^GS). */
+export interface SymbolElement extends BaseElement {
+  type: "symbol";
+  /** Symbol letter A to E */
+  symbol: string;
+  orientation: Orientation;
+  height: number;
+  width: number;
+  originType: OriginType;
+}
+
+/** Graphic (^GF, ^XG, ^IM). */
+export interface ImageElement extends BaseElement {
+  type: "image";
+  scaleX: number;
+  scaleY: number;
+  orientation: Orientation;
+  /** The graphic, or null when the recalled one does not exist */
+  graphic: Graphic | null;
+}
+
+export type ZplElement =
+  | TextElement
+  | BarcodeElement
+  | BoxElement
+  | CircleElement
+  | EllipseElement
+  | DiagonalLineElement
+  | SymbolElement
+  | ImageElement;
+
+/** Print quantity (^PQ). */
+export interface Quantity {
+  total: number;
+  pauseEvery: number;
+  replicates: number;
+  overridePause: boolean;
+}
+
+/** A label (^XA to ^XZ) as returned by analyze(). */
+export interface Label {
+  elements: ZplElement[];
+  /** Print width (^PW), null when not set */
+  printWidth: number | null;
+  /** Label length (^LL), null when not set */
+  labelLength: number | null;
+  dpi: number;
+  /** Print orientation (^PO) */
+  printOrientation: "N" | "I";
+  /** Mirror image (^PM) */
+  mirror: boolean;
+  /** Label shift (^LS), dots to the left */
+  labelShift: number;
+  /** Label top (^LT), dots down */
+  labelTop: number;
+  quantity: Quantity;
+  /** Number of the printed copy (1‑based), with expandQuantity */
+  copy?: number;
+  /** Whether the printer pauses after this copy, with expandQuantity */
+  pause?: boolean;
+}
+
+/** A piece of text of a field, placed by the top left of its line. */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+}
+
+/** The lines of a text field, as laid out by layoutText(). */
+export interface TextLayout {
+  /** Size of the field or block in dots */
+  width: number;
+  height: number;
+  runs: TextRun[];
+}
+
+/** The letters of a graphic symbol and the ring around them. */
+export interface SymbolLayout {
+  letters: string;
+  font: FontMetrics;
+  /** Width of the letters as drawn */
+  textWidth: number;
+  /** Thickness of the ring, 0 for none */
+  ring: number;
+}
+
+/**
+ * The part of the canvas 2D context API that the drawers use.  It is
+ * implemented by pureimage contexts and by VectorContext.
+ */
+export interface DrawingContext {
+  fillStyle: string;
+  font: string;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  scale(sx: number, sy: number): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  fill(): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  fillText(text: string, x: number, y: number): void;
+  drawImage(image: Bitmap, ...args: number[]): void;
+}
+
+/**
+ * What a drawer works out for an element in prepare() and uses in
+ * draw().  The renderer prepares copies of the elements, so this state
+ * never appears on the labels returned by analyze().
+ */
+export interface RenderState {
+  /** Size of the drawn element before rotation */
+  renderWidth?: number;
+  renderHeight?: number;
+  /** Bitmap of a barcode or graphic */
+  image?: Bitmap | null;
+  /** Lines of a text field */
+  layout?: TextLayout;
+  /** Letters of a graphic symbol */
+  symbolLayout?: SymbolLayout;
+  /** Height of the bars of a barcode without its interpretation line */
+  barHeight?: number;
+  /** Space left above a barcode */
+  marginTop?: number;
+  /** Why the element cannot be drawn */
+  failure?: { code: DiagnosticCode; message: string } | null;
+}
+
+export type PreparedElement<T extends ZplElement = ZplElement> = T &
+  RenderState;
+
+/** Options of analyze(). */
+export interface AnalyzeOptions {
+  /** Printer resolution in dots per inch (default 203) */
+  dpi?: number;
+  /** Stored format to recall after the document */
+  recall?: { name?: string; values?: Record<string, string | number> };
+  /** Return a label per printed copy (^PQ) */
+  expandQuantity?: boolean;
+  /** Array that diagnostics are appended to */
+  diagnostics?: Diagnostic[];
+  /** Throw a ZplDiagnosticError on the first error */
+  strict?: boolean;
+}
+
+/** Options of drawElements() and the other element renderers. */
+export interface DrawOptions {
+  /** Label size in dots; the content decides when left out */
+  width?: number;
+  height?: number;
+  /** Printer resolution in dots per inch (default 203) */
+  dpi?: number;
+  /** Output scale of PNG and SVG output */
+  scale?: number;
+  printOrientation?: "N" | "I";
+  mirror?: boolean;
+  labelShift?: number;
+  labelTop?: number;
+  diagnostics?: Diagnostic[];
+  strict?: boolean;
+}
+
+/** A page of drawElementsToPdf(). */
+export interface PdfPage extends DrawOptions {
+  elements: ZplElement[];
+}
+
+/** Options of render(). */
+export interface RenderOptions extends AnalyzeOptions {
+  /** Default stock size in dots */
+  width?: number;
+  height?: number;
+  format?: "png" | "svg" | "pdf";
+  scale?: number;
+}
+
+/** Options of renderAll(). */
+export interface RenderAllOptions extends RenderOptions {
+  combine?: "sheet" | "tiff";
+  /** Gap between the labels of a sheet, in dots (default 20) */
+  gap?: number;
+}
+
+/** Options of renderTemplate(). */
+export interface TemplateOptions extends RenderOptions {
+  /** Stored format to render (default: the last one defined) */
+  formatName?: string;
+}
+
+/** Options of imageToZpl(). */
+export interface ImageToZplOptions {
+  command?: "GF" | "DG";
+  name?: string;
+  threshold?: number;
+  dither?: "none" | "floyd-steinberg" | "ordered";
+  compression?: "none" | "ascii" | "z64";
+}
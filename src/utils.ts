@@ -1,5 +1,6 @@
-import PImage from 'pureimage';
-import { Readable } from 'stream';
+import * as PImage from 'pureimage';
+import type { Bitmap } from './types.js';
+import { Readable, Writable } from 'stream';
 
 /**
  * Decode a PNG buffer into a PureImage bitmap.  Many drawers use
@@ -8,10 +9,175 @@ import { Readable } from 'stream';
  * pureimage’s decodePNGFromStream API.
  *
  * @param {Buffer} buffer PNG image data
- * @returns {Promise<any>} A pureimage bitmap
+ * @returns {Promise<PImage.Bitmap>} A pureimage bitmap
  */
-export async function decodePng(buffer) {
+export async function decodePng(buffer: Buffer): Promise<PImage.Bitmap> {
   const stream = Readable.from(buffer);
   return PImage.decodePNGFromStream(stream);
 }
 
+/**
+ * Decode a PNG or JPEG buffer into a PureImage bitmap.  The format is
+ * recognised from the file signature.
+ *
+ * @param {Buffer} buffer PNG or JPEG image data
+ * @returns {Promise<PImage.Bitmap>} A pureimage bitmap
+ */
+export async function decodeImage(buffer: Buffer): Promise<PImage.Bitmap> {
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return decodePng(buffer);
+  }
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return PImage.decodeJPEGFromStream(Readable.from(buffer));
+  }
+  throw new Error('Unsupported image format; expected PNG or JPEG');
+}
+
+/**
+ * Encode a PureImage bitmap as a PNG buffer.  pureimage only writes
+ * to streams, so the chunks are collected into a single buffer.
+ *
+ * @param {PImage.Bitmap} bitmap A pureimage bitmap
+ * @returns {Promise<Buffer>} PNG image data
+ */
+export async function encodePng(bitmap: PImage.Bitmap): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const writable = new Writable({
+    write(chunk, encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  await PImage.encodePNGToStream(bitmap, writable);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Stack several bitmaps on top of each other into one tall bitmap.
+ * The result is as wide as the widest input; narrower inputs are left
+ * aligned and the remaining area as well as the gaps between inputs
+ * are white.
+ *
+ * @param {Bitmap[]} bitmaps RGBA bitmaps in top‑to‑bottom order
+ * @param {number} [gap=0] Vertical gap between bitmaps in pixels
+ * @returns {PImage.Bitmap} A new pureimage bitmap containing all inputs
+ */
+export function stackBitmaps(
+  bitmaps: Bitmap[],
+  gap = 0
+): PImage.Bitmap {
+  let width = 1;
+  let height = 0;
+  for (const bmp of bitmaps) {
+    width = Math.max(width, bmp.width);
+    height += bmp.height;
+  }
+  height += Math.max(0, bitmaps.length - 1) * gap;
+  const sheet = PImage.make(width, Math.max(1, height));
+  // white, fully opaque background
+  sheet.data.fill(255);
+  let top = 0;
+  for (const bmp of bitmaps) {
+    const rowBytes = bmp.width * 4;
+    for (let y = 0; y < bmp.height; y++) {
+      const src = bmp.data.subarray(y * rowBytes, (y + 1) * rowBytes);
+      sheet.data.set(src, ((top + y) * width) * 4);
+    }
+    top += bmp.height + gap;
+  }
+  return sheet;
+}
+
+/**
+ * Resizes a bitmap by a uniform factor.  Shrinking averages every
+ * source pixel that falls into a destination pixel (weighted by
+ * coverage), which keeps thin lines visible at screen resolutions;
+ * enlarging uses nearest neighbour so that dots stay sharp.
+ *
+ * @param {PImage.Bitmap} bitmap A pureimage bitmap
+ * @param {number} factor Scale factor, e.g. 96 / 300
+ * @returns {PImage.Bitmap} A new pureimage bitmap, or the input when
+ *   factor is 1
+ */
+export function scaleBitmap(
+  bitmap: PImage.Bitmap,
+  factor: number
+): PImage.Bitmap {
+  if (!(factor > 0) || factor === 1) {
+    return bitmap;
+  }
+  const { width, height, data } = bitmap;
+  const outW = Math.max(1, Math.round(width * factor));
+  const outH = Math.max(1, Math.round(height * factor));
+  const out = PImage.make(outW, outH);
+  const step = 1 / factor;
+  for (let oy = 0; oy < outH; oy++) {
+    for (let ox = 0; ox < outW; ox++) {
+      const dst = (oy * outW + ox) * 4;
+      if (factor > 1) {
+        const src =
+          (Math.min(height - 1, Math.floor(oy * step)) * width +
+            Math.min(width - 1, Math.floor(ox * step))) *
+          4;
+        out.data.set(data.subarray(src, src + 4), dst);
+        continue;
+      }
+      // Box filter over the source area covered by this pixel
+      const x0 = ox * step;
+      const y0 = oy * step;
+      const x1 = Math.min(width, x0 + step);
+      const y1 = Math.min(height, y0 + step);
+      const sums = [0, 0, 0, 0];
+      let total = 0;
+      for (let sy = Math.floor(y0); sy < y1; sy++) {
+        const wy = Math.min(sy + 1, y1) - Math.max(sy, y0);
+        for (let sx = Math.floor(x0); sx < x1; sx++) {
+          const w = wy * (Math.min(sx + 1, x1) - Math.max(sx, x0));
+          const src = (sy * width + sx) * 4;
+          for (let c = 0; c < 4; c++) {
+            sums[c] += data[src + c] * w;
+          }
+          total += w;
+        }
+      }
+      for (let c = 0; c < 4; c++) {
+        out.data[dst + c] = total > 0 ? Math.round(sums[c] / total) : 255;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Moves the pixels of a bitmap with an affine transform made of whole
+ * dot translations, 180° rotations and mirroring, as used for the
+ * whole-label placement commands.  Pixels are mapped by their centres,
+ * so the result stays exact; areas nothing maps to are white.
+ *
+ * @param {PImage.Bitmap} bitmap A pureimage bitmap
+ * @param {number[]} matrix Transform in [a, b, c, d, e, f] form
+ * @returns {PImage.Bitmap} A new pureimage bitmap of the same size
+ */
+export function transformBitmap(
+  bitmap: PImage.Bitmap,
+  matrix: number[]
+): PImage.Bitmap {
+  const { width, height, data } = bitmap;
+  const [a, b, c, d, e, f] = matrix;
+  const out = PImage.make(width, height);
+  out.data.fill(255);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cx = x + 0.5;
+      const cy = y + 0.5;
+      const tx = Math.floor(a * cx + c * cy + e);
+      const ty = Math.floor(b * cx + d * cy + f);
+      if (tx < 0 || ty < 0 || tx >= width || ty >= height) {
+        continue;
+      }
+      const src = (y * width + x) * 4;
+      out.data.set(data.subarray(src, src + 4), (ty * width + tx) * 4);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,355 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import { analyze } from "../index.ts";
+
+describe("Label size", () => {
+    test("^PW and ^LL are recorded on the label", () => {
+        const [label] = analyze("^XA^PW812^LL1218^FO10,10^FDx^FS^XZ");
+        assert.equal(label.printWidth, 812);
+        assert.equal(label.labelLength, 1218);
+    });
+
+    test("labels without ^PW and ^LL leave them unset", () => {
+        const [label] = analyze("^XA^FO10,10^FDx^FS^XZ");
+        assert.equal(label.printWidth, null);
+        assert.equal(label.labelLength, null);
+    });
+});
+
+describe("Printer resolution", () => {
+    test("defaults to 203 dpi", () => {
+        const [label] = analyze("^XA^FO10,10^FDx^FS^XZ");
+        assert.equal(label.dpi, 203);
+    });
+
+    test("dot based defaults keep their physical size", () => {
+        const zpl = "^XA^FO10,10^BCN^FD123^FS^XZ";
+        const [at203] = analyze(zpl).map((label) => label.elements[0]);
+        const [at300] = analyze(zpl, { dpi: 300 }).map((label) => label.elements[0]);
+        assert.equal(at203.height, 50);
+        assert.equal(at203.moduleWidth, 2);
+        assert.equal(at300.height, 74);
+        assert.equal(at300.moduleWidth, 3);
+    });
+
+    test("resident bitmap fonts use the matrix of the printhead", () => {
+        const zpl = "^XA^FO10,10^AEN^FDx^FS^XZ";
+        const [text203] = analyze(zpl)[0].elements;
+        const [text300] = analyze(zpl, { dpi: 300 })[0].elements;
+        assert.equal(text203.font.height, 28);
+        assert.equal(text300.font.height, 42);
+    });
+
+    test("physical units convert at the printer resolution", () => {
+        const zpl = "^XA^MUI^FO1,0.5^GB1,1,1^FS^XZ";
+        const [box] = analyze(zpl, { dpi: 300 })[0].elements;
+        assert.equal(box.x, 300);
+        assert.equal(box.y, 150);
+    });
+});
+
+describe("Units of measure (^MU)", () => {
+    test("converts millimetres to dots", () => {
+        const [box] = analyze("^XA^MUM^FO10,5^GB25.4,10,1^FS^XZ")[0].elements;
+        assert.equal(box.x, 80);
+        assert.equal(box.y, 40);
+        assert.equal(box.width, 203);
+        assert.equal(box.height, 80);
+    });
+
+    test("converts the label home, barcode defaults and field sizes", () => {
+        const zpl = "^XA^MUI^LH0.5,0.5^BY0.02^FO1,1^BCN,0.5^FD1^FS^XZ";
+        const [barcode] = analyze(zpl)[0].elements;
+        assert.equal(barcode.x, 305);
+        assert.equal(barcode.y, 305);
+        assert.equal(barcode.moduleWidth, 4);
+        assert.equal(barcode.height, 102);
+    });
+
+    test("scales dot values with the base and desired resolution", () => {
+        const [box] = analyze("^XA^MUD,200,300^FO100,10^GB20,20,2^FS^XZ")[0]
+            .elements;
+        assert.equal(box.x, 150);
+        assert.equal(box.y, 15);
+        assert.equal(box.width, 30);
+    });
+
+    test("stays in effect for the following labels", () => {
+        const labels = analyze(
+            "^XA^MUM^FO10,10^GB1,1,1^FS^XZ^XA^FO10,10^GB1,1,1^FS^XZ" +
+                "^XA^MUD^FO10,10^GB1,1,1^FS^XZ"
+        );
+        assert.deepEqual(
+            labels.map((label) => label.elements[0].x),
+            [80, 80, 10]
+        );
+    });
+});
+
+describe("Stored formats (^DF, ^XF, ^FN)", () => {
+    const format = "^XA^DFR:SHIP.ZPL^FS^FO10,10^FN1^FS^FO10,40^FN2\"Name\"^FDnobody^FS^XZ";
+
+    // Field data of the elements of every label
+    function texts(labels) {
+        return labels.map((label) => label.elements.map((element) => element.text));
+    }
+
+    test("a stored format prints nothing by itself", () => {
+        assert.deepEqual(analyze(format), []);
+    });
+
+    test("a recall fills the fields with its ^FN data", () => {
+        const labels = analyze(
+            format +
+                "^XA^XFR:SHIP.ZPL^FN1^FDfirst^FS^FN2^FDAnn^FS^XZ" +
+                "^XA^XFR:SHIP.ZPL^FN1^FDsecond^FS^XZ"
+        );
+        assert.deepEqual(texts(labels), [
+            ["first", "Ann"],
+            ["second", "nobody"],
+        ]);
+        assert.equal(labels[0].elements[1].y, 40);
+    });
+
+    test("options.recall takes values by field number or prompt", () => {
+        const labels = analyze(format, {
+            recall: { values: { 1: "one", Name: "Bob" } },
+        });
+        assert.deepEqual(texts(labels), [["one", "Bob"]]);
+    });
+
+    test("a missing format is reported", () => {
+        const diagnostics = [];
+        analyze("^XA^XFR:NONE.ZPL^XZ", { diagnostics });
+        assert.deepEqual(
+            diagnostics.map((d) => [d.code, d.command, d.offset]),
+            [["missing-format", "^XFR:NONE.ZPL", 3]]
+        );
+    });
+
+    test("a format that recalls itself is expanded once", () => {
+        const diagnostics = [];
+        const labels = analyze(
+            "^XA^DFR:A.ZPL^XFR:A.ZPL^FO0,0^FDx^FS^XZ^XA^XFR:A.ZPL^XZ",
+            { diagnostics }
+        );
+        assert.deepEqual(texts(labels), [["x"]]);
+        assert.deepEqual(
+            diagnostics.map((d) => [d.code, d.command]),
+            [["recursive-format", "^XFR:A.ZPL"]]
+        );
+    });
+
+    test("formats that recall each other are expanded once", () => {
+        const diagnostics = [];
+        const labels = analyze(
+            "^XA^DFR:A.ZPL^XFR:B.ZPL^FO0,0^FDa^FS^XZ" +
+                "^XA^DFR:B.ZPL^XFR:A.ZPL^FO0,20^FDb^FS^XZ" +
+                "^XA^XFR:A.ZPL^XZ",
+            { diagnostics }
+        );
+        assert.deepEqual(texts(labels), [["a", "b"]]);
+        assert.equal(diagnostics[0].message, "Format R:A.ZPL recalls itself");
+    });
+
+    test("a format recalled twice in a document is expanded each time", () => {
+        const labels = analyze(format + "^XA^XFR:SHIP.ZPL^XZ^XA^XFR:SHIP.ZPL^XZ");
+        assert.equal(labels.length, 2);
+    });
+});
+
+describe("Print quantity (^PQ)", () => {
+    // Data of the first element of every copy
+    function serials(labels) {
+        return labels.map((label) => label.elements[0].text);
+    }
+
+    test("is recorded on the label", () => {
+        const [label] = analyze("^XA^PQ50,10,1,Y^FO0,0^FDx^FS^XZ");
+        assert.deepEqual(label.quantity, {
+            total: 50,
+            pauseEvery: 10,
+            replicates: 1,
+            overridePause: true,
+        });
+    });
+
+    test("expands into one label per copy with advancing serial numbers", () => {
+        const labels = analyze("^XA^PQ3^FO0,0^SN001,1,Y^FS^XZ", {
+            expandQuantity: true,
+        });
+        assert.deepEqual(serials(labels), ["001", "002", "003"]);
+        assert.deepEqual(labels.map((label) => label.copy), [1, 2, 3]);
+    });
+
+    test("repeats every serial number within the total", () => {
+        const labels = analyze("^XA^PQ6,0,1^FO0,0^FD10^SFdd,-1^FS^XZ", {
+            expandQuantity: true,
+        });
+        assert.deepEqual(serials(labels), ["10", "10", "09", "09", "08", "08"]);
+    });
+
+    test("marks the copies after which the printer pauses", () => {
+        const labels = analyze("^XA^PQ5,2^FO0,0^FDx^FS^XZ", {
+            expandQuantity: true,
+        });
+        assert.deepEqual(
+            labels.map((label) => label.pause),
+            [false, true, false, true, false]
+        );
+    });
+
+    test("copies share the label index of diagnostics and sources", () => {
+        const diagnostics = [];
+        const labels = analyze(
+            "^XA^PQ3^FO0,0^FDx^FS^XZ^XA^FO0,0^FDy^FS^QQ^XZ",
+            { expandQuantity: true, diagnostics }
+        );
+        assert.equal(labels.length, 4);
+        assert.deepEqual(
+            diagnostics.map((d) => [d.code, d.command, d.label]),
+            [["unknown-command", "^QQ", 1]]
+        );
+        assert.deepEqual(
+            labels.map((label) => label.elements[0].source.label),
+            [0, 0, 0, 1]
+        );
+    });
+
+    test("stops at 10,000 copies with a warning", () => {
+        const diagnostics = [];
+        const labels = analyze("^XA^PQ99999999^FO0,0^FDx^FS^XZ", {
+            expandQuantity: true,
+            diagnostics,
+        });
+        assert.equal(labels.length, 10000);
+        assert.deepEqual(
+            diagnostics.map((d) => [d.severity, d.code, d.command, d.offset]),
+            [["warning", "quantity-limit", "^PQ99999999", 3]]
+        );
+    });
+});
+
+describe("Label placement (^PO, ^PM, ^LS, ^LT)", () => {
+    test("defaults to a label printed as designed", () => {
+        const [label] = analyze("^XA^FO0,0^FDx^FS^XZ");
+        assert.equal(label.printOrientation, "N");
+        assert.equal(label.mirror, false);
+        assert.equal(label.labelShift, 0);
+        assert.equal(label.labelTop, 0);
+    });
+
+    test("records the settings on the label", () => {
+        const [label] = analyze("^XA^POI^PMY^LS20^LT-10^FO0,0^FDx^FS^XZ");
+        assert.equal(label.printOrientation, "I");
+        assert.equal(label.mirror, true);
+        assert.equal(label.labelShift, 20);
+        assert.equal(label.labelTop, -10);
+    });
+
+    test("limits the label top to 120 dot rows", () => {
+        const [label] = analyze("^XA^LT500^FO0,0^FDx^FS^XZ");
+        assert.equal(label.labelTop, 120);
+    });
+
+    test("leaves the positions of the fields alone", () => {
+        const [box] = analyze("^XA^POI^LS20^LT10^FO30,40^GB10,10,10^FS^XZ")[0]
+            .elements;
+        assert.equal(box.x, 30);
+        assert.equal(box.y, 40);
+    });
+});
+
+describe("Graphic boxes (^GB)", () => {
+    test("record the rounding degree", () => {
+        const [square, rounded, invalid] = analyze(
+            "^XA^FO0,0^GB50,50,2^FS^FO0,0^GB50,50,2,B,6^FS^FO0,0^GB50,50,2,B,9^FS^XZ"
+        )[0].elements;
+        assert.equal(square.rounding, 0);
+        assert.equal(rounded.rounding, 6);
+        assert.equal(invalid.rounding, 0);
+    });
+
+    test("^FT gives the bottom of the box", () => {
+        const [box, thick, clipped] = analyze(
+            "^XA^FT10,100^GB50,30,2^FS^FT10,100^GB50,30,40^FS^FT10,20^GB50,30,2^FS^XZ"
+        )[0].elements;
+        assert.equal(box.y, 70);
+        assert.equal(thick.y, 60);
+        assert.equal(clipped.y, 0);
+    });
+});
+
+describe("Field and text blocks (^FB, ^TB)", () => {
+    test("record the block settings of the field", () => {
+        const [fb, tb] = analyze(
+            "^XA^FO0,0^FB200,3,4,J,10^FDx^FS^FO0,0^TBN,100,50^FDy^FS^XZ"
+        )[0].elements;
+        assert.deepEqual(fb.block, {
+            type: "FB",
+            width: 200,
+            lines: 3,
+            lineSpacing: 4,
+            align: "J",
+            indent: 10,
+        });
+        assert.deepEqual(tb.block, {
+            type: "TB",
+            orientation: "N",
+            width: 100,
+            height: 50,
+        });
+    });
+});
+
+describe("Element sources", () => {
+    // Command texts of the field of an element
+    function commandTexts(element) {
+        return element.source.commands.map((c) => c.command);
+    }
+
+    test("span the commands of the field with lines and columns", () => {
+        const [text] = analyze("^XA\r\n^FO10,20^A0N,30\r\n^FDHello^FS\r\n^XZ")[0]
+            .elements;
+        assert.equal(text.source.command, "^FDHello");
+        assert.deepEqual(commandTexts(text), ["^FO10,20", "^A0N,30", "^FDHello"]);
+        assert.deepEqual(text.source.range, {
+            start: { offset: 5, byteOffset: 5, line: 2, column: 1 },
+            end: { offset: 30, byteOffset: 30, line: 3, column: 9 },
+        });
+        assert.deepEqual(text.source.commands[1].range, {
+            start: { offset: 13, byteOffset: 13, line: 2, column: 9 },
+            end: { offset: 20, byteOffset: 20, line: 2, column: 16 },
+        });
+    });
+
+    test("list the barcode commands of a barcode field", () => {
+        const [barcode] = analyze("^XA^FO0,0^BY2^BCN,50^FD123^FS^XZ")[0].elements;
+        assert.deepEqual(commandTexts(barcode), ["^FO0,0", "^BY2", "^BCN,50", "^FD123"]);
+        assert.equal(barcode.source.range.start.offset, 3);
+        assert.equal(barcode.source.range.end.offset, 26);
+    });
+
+    test("list a font selected before the field outside the range", () => {
+        const [first, second] = analyze("^XA^A0N,30^FO0,0^FDx^FS^FO0,40^FDy^FS^XZ")[0]
+            .elements;
+        assert.deepEqual(commandTexts(first), ["^A0N,30", "^FO0,0", "^FDx"]);
+        assert.deepEqual(commandTexts(second), ["^A0N,30", "^FO0,40", "^FDy"]);
+        assert.equal(first.source.range.start.offset, 3);
+        assert.equal(second.source.range.start.offset, 23);
+    });
+
+    test("count UTF-8 bytes apart from characters", () => {
+        const [accented, plain] = analyze("^XA^FO0,0^FDé€^FS^FO0,0^FDx^FS^XZ")[0]
+            .elements;
+        assert.deepEqual(accented.source.range.end, {
+            offset: 14,
+            byteOffset: 17,
+            line: 1,
+            column: 15,
+        });
+        assert.equal(plain.source.range.start.offset, 17);
+        assert.equal(plain.source.range.start.byteOffset, 20);
+    });
+});
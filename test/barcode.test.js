@@ -0,0 +1,216 @@
+import { describe, test } from "node:test";
+
+import { PNG } from "pngjs";
+import assert from "node:assert/strict";
+import { analyze, render } from "../index.ts";
+
+// Number of dark pixels of a decoded PNG in rows y0 up to y1
+function inkInRows(png, y0, y1) {
+    let count = 0;
+    for (let y = y0; y < y1; y++) {
+        for (let x = 0; x < png.width; x++) {
+            if (png.data[(y * png.width + x) * 4] < 128) {
+                count++;
+            }
+        }
+    }
+    return count;
+}
+
+describe("Linear symbologies", () => {
+    const commands = [
+        "^BKN,N,60,Y,N,B,D",
+        "^B1N,N,60",
+        "^BMN,B,60",
+        "^BPN,N,60",
+        "^BJN,60",
+        "^BIN,60",
+        "^BLN,60",
+    ];
+    // A label with the data 123 in the symbology of every command
+    const label = (...list) =>
+        "^XA^PW400^LL100" +
+        list.map((command) => `^FO10,10${command}^FD123^FS`).join("") +
+        "^XZ";
+
+    test("are recognised with their parameters", () => {
+        const elements = analyze(label(...commands))[0].elements;
+        assert.deepEqual(
+            elements.map((e) => e.codeType),
+            [
+                "rationalizedCodabar",
+                "code11",
+                "msi",
+                "plessey",
+                "code2of5",
+                "industrial2of5",
+                "code39",
+            ]
+        );
+        assert.deepEqual(elements[0].options, { start: "B", stop: "D" });
+        assert.deepEqual(elements[1].options, { checkDigits: 2 });
+        assert.equal(elements[6].options.checkDigit, true);
+        assert.ok(elements.every((e) => e.height === 60));
+    });
+
+    test("are drawn", async () => {
+        for (const command of commands) {
+            const diagnostics = [];
+            const png = PNG.sync.read(await render(label(command), { diagnostics }));
+            assert.deepEqual(diagnostics, [], command);
+            assert.ok(inkInRows(png, 10, 50) > 0, command);
+        }
+    });
+});
+
+describe("UPC-A and UPC-E (^BU, ^B9)", () => {
+    test("print the check digit by default", () => {
+        const [upca, upce] = analyze(
+            "^XA^FO0,0^BUN,80^FD01234567890^FS^FO0,100^B9N,80,Y,N,N^FD0123453^FS^XZ"
+        )[0].elements;
+        assert.equal(upca.codeType, "upca");
+        assert.equal(upca.options.printCheckDigit, true);
+        assert.equal(upce.codeType, "upce");
+        assert.equal(upce.options.printCheckDigit, false);
+    });
+
+    test("leave the check digit out of the interpretation line with N", async () => {
+        const zpl = (e) =>
+            `^XA^PW300^LL120^FO20,0^BUN,80,Y,N,${e}^FD01234567890^FS^XZ`;
+        const shown = PNG.sync.read(await render(zpl("Y")));
+        const hidden = PNG.sync.read(await render(zpl("N")));
+        assert.equal(inkInRows(hidden, 0, 40), inkInRows(shown, 0, 40));
+        assert.ok(inkInRows(hidden, 0, 120) < inkInRows(shown, 0, 120));
+    });
+});
+
+describe("2D symbologies", () => {
+    test("are recognised with their parameters", () => {
+        const elements = analyze(
+            "^XA^FO10,10^BON,4^FDHELLO^FS^FO10,10^B0N,4^FDHELLO^FS" +
+                "^FO10,10^BD3^FDHELLO^FS^FO10,10^BFN,8,3^FDHELLO^FS" +
+                "^FO10,10^BBN,10,,,,F^FDHELLO^FS^XZ"
+        )[0].elements;
+        assert.deepEqual(
+            elements.map((e) => e.codeType),
+            ["azteccode", "azteccode", "maxicode", "micropdf417", "codablockf"]
+        );
+        assert.equal(elements[0].options.scale, 4);
+        assert.equal(elements[2].options.mode, 3);
+        assert.equal(elements[3].options.rowmult, 4);
+        assert.equal(elements[4].options.rowheight, 8);
+        assert.equal(elements[4].options.rowHeightDots, 10);
+    });
+
+    test("Codablock F prints with the default row height", async () => {
+        const diagnostics = [];
+        const png = PNG.sync.read(
+            await render("^XA^PW400^LL100^FO10,10^BB^FDHELLO^FS^XZ", { diagnostics })
+        );
+        assert.deepEqual(diagnostics, []);
+        // Two rows of 8 dots between separators of one module (2 dots)
+        assert.ok(inkInRows(png, 10, 11) > 0);
+        assert.ok(inkInRows(png, 31, 32) > 0);
+        assert.equal(inkInRows(png, 32, 100), 0);
+    });
+
+    test("MaxiCode carries the primary message of a UPS label", async () => {
+        const diagnostics = [];
+        const png = PNG.sync.read(
+            await render(
+                "^XA^PW300^LL300^FO10,10^BD2^FH_" +
+                    "^FD002840152382802[)>_1E01_1D961Z00004951_1DUPSN_1E_04^FS^XZ",
+                { diagnostics }
+            )
+        );
+        assert.deepEqual(diagnostics, []);
+        assert.ok(inkInRows(png, 10, 200) > 0);
+    });
+
+    test("GS1 DataBar type 12 is a UCC/EAN-128 composite with CC-C", () => {
+        const data = "^FD(01)09501101530003|(21)ABC123^FS^XZ";
+        const [type11] = analyze("^XA^FO0,0^BRN,11,2" + data)[0].elements;
+        const [type12] = analyze("^XA^FO0,0^BRN,12,2" + data)[0].elements;
+        assert.equal(type11.codeType, "gs1-128composite");
+        assert.equal(type11.options.ccversion, undefined);
+        assert.equal(type12.codeType, "gs1-128composite");
+        assert.equal(type12.options.ccversion, "c");
+    });
+
+    test("GS1 DataBar composites are drawn with their component", async () => {
+        const data = "^FD(01)09501101530003|(21)ABC123^FS^XZ";
+        const label = (type) => `^XA^PW600^LL300^FO10,10^BRN,${type},2${data}`;
+        const type11 = PNG.sync.read(await render(label(11)));
+        const type12 = PNG.sync.read(await render(label(12)));
+        assert.notDeepEqual(type11.data, type12.data);
+    });
+});
+
+describe("QR Code (^BQ)", () => {
+    // First row of a decoded PNG with ink in it
+    function firstInkRow(png) {
+        for (let y = 0; y < png.height; y++) {
+            if (inkInRows(png, y, y + 1) > 0) {
+                return y;
+            }
+        }
+        return -1;
+    }
+
+    test("Model 1 is reported as unsupported and printed as Model 2", () => {
+        const diagnostics = [];
+        const [qr] = analyze("^XA^FO10,10^BQN,1,4^FDQA,hello^FS^XZ", {
+            diagnostics,
+        })[0].elements;
+        assert.equal(qr.codeType, "qrcode");
+        assert.deepEqual(
+            diagnostics.map((d) => [d.severity, d.code, d.command, d.message]),
+            [
+                [
+                    "warning",
+                    "unsupported-option",
+                    "^BQN,1,4",
+                    "Unsupported QR Code Model 1, printed as Model 2",
+                ],
+            ]
+        );
+    });
+
+    test("the gap above the symbol keeps its size at every resolution", async () => {
+        const zpl = "^XA^PW200^LL200^FO0,0^BQN,2,4^FDQA,hello^FS^XZ";
+        const at203 = PNG.sync.read(await render(zpl));
+        const at300 = PNG.sync.read(await render(zpl, { dpi: 300 }));
+        assert.equal(firstInkRow(at203), 10);
+        assert.equal(firstInkRow(at300), 15);
+    });
+});
+
+describe("Data a barcode cannot encode", () => {
+    // Diagnostics of rendering a single field with the given barcode
+    async function problems(command, data) {
+        const diagnostics = [];
+        await render(`^XA^CI28^PW400^LL100^FO10,10${command}^FD${data}^FS^XZ`, {
+            diagnostics,
+        });
+        return diagnostics.map((d) => [d.code, d.message]);
+    }
+
+    test("is reported for Code 128 instead of encoding something else", async () => {
+        assert.deepEqual(await problems("^BCN,50,Y,N,N,A", "A€B"), [
+            ["invalid-barcode-data", "Code 128 cannot encode U+20AC"],
+        ]);
+    });
+
+    test("is reported for Code 39 instead of printing a dash", async () => {
+        assert.deepEqual(await problems("^B3N,N,50", "Aé"), [
+            ["invalid-barcode-data", "Code 39 cannot encode U+00E9"],
+        ]);
+    });
+
+    test("leaves the field blank", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^CI28^PW400^LL100^FO10,10^BCN,50,Y,N,N,A^FDA€B^FS^XZ")
+        );
+        assert.equal(inkInRows(png, 0, 100), 0);
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import {
+    code128Widths,
+    encodeCode128,
+    mod10CheckDigit,
+} from "../src/code128.ts";
+
+// Symbol characters between the start character and the check character
+function data(encoded) {
+    return encoded.codewords.slice(1, -2);
+}
+
+// Start character of an encoding
+function start(encoded) {
+    return encoded.codewords[0];
+}
+
+describe("Code 128 symbol characters", () => {
+    test("end with the mod 103 check character and the stop character", () => {
+        const { codewords } = encodeCode128("AB");
+        const check = (104 + 33 + 2 * 34) % 103;
+        assert.deepEqual(codewords, [104, 33, 34, check, 106]);
+    });
+
+    test("expand into bars and spaces of eleven modules", () => {
+        const widths = code128Widths(encodeCode128("AB").codewords);
+        assert.equal(widths.reduce((sum, w) => sum + w, 0), 4 * 11 + 13);
+    });
+
+    test("mode N selects subsets and functions with invocation codes", () => {
+        const encoded = encodeCode128(">;1234>6AB>8C");
+        assert.equal(start(encoded), 105);
+        assert.deepEqual(data(encoded), [12, 34, 100, 33, 34, 102, 35]);
+        assert.equal(encoded.text, "1234ABC");
+    });
+
+    test("mode N appends a mod 10 check digit on request", () => {
+        const encoded = encodeCode128("123", "N", true);
+        assert.equal(encoded.text, "123" + mod10CheckDigit("123"));
+    });
+
+    test("mode A uses subset C for runs of digits", () => {
+        const encoded = encodeCode128("AB123456", "A");
+        assert.equal(start(encoded), 104);
+        assert.deepEqual(data(encoded), [33, 34, 99, 12, 34, 56]);
+    });
+
+    test("mode A uses subset A for control characters", () => {
+        const encoded = encodeCode128("A\tB", "A");
+        assert.equal(start(encoded), 103);
+        assert.deepEqual(data(encoded), [33, 73, 34]);
+    });
+
+    test("mode U pads the SSCC to 19 digits and adds FNC1 and a check digit", () => {
+        const encoded = encodeCode128("001234567890123456", "U");
+        assert.equal(start(encoded), 105);
+        assert.deepEqual(
+            data(encoded),
+            [102, 0, 12, 34, 56, 78, 90, 12, 34, 56, 6]
+        );
+        assert.equal(encoded.text, "(00)123456789012345606");
+    });
+
+    test("mode D encodes GS1 application identifiers", () => {
+        const gs1 = "(01)09501101530003(10)ABC123(21)XYZ";
+        const encoded = encodeCode128(gs1, "D");
+        assert.equal(start(encoded), 105);
+        assert.deepEqual(data(encoded), [
+            102, 1, 9, 50, 11, 1, 53, 0, 3, 10, 100, 33, 34, 35, 17, 18, 19, 102,
+            18, 17, 56, 57, 58,
+        ]);
+        assert.equal(encoded.text, gs1);
+    });
+
+    test("mode D reads identifiers of three and four digits without brackets", () => {
+        const encoded = encodeCode128("400ORDER42>80109501101530003", "D");
+        assert.equal(encoded.text, "(400)ORDER42(01)09501101530003");
+        // FNC1 ends the data of AI 400, before AI 01 in subset C
+        assert.deepEqual(data(encoded).slice(8, 13), [50, 20, 18, 102, 99]);
+        const long = encodeCode128("802012345>815123456", "D");
+        assert.equal(long.text, "(8020)12345(15)123456");
+    });
+
+    test("mode D adds missing check digits", () => {
+        const encoded = encodeCode128("(01)0950110153000", "D");
+        assert.equal(encoded.text, "(01)09501101530003");
+    });
+});
+
+describe("Code 128 extended characters", () => {
+    test("are preceded by FNC4 of the current subset", () => {
+        assert.deepEqual(data(encodeCode128("aé", "A")), [65, 100, 73]);
+        assert.deepEqual(data(encodeCode128("é")), [100, 73]);
+    });
+
+    test("switch subsets before FNC4", () => {
+        const encoded = encodeCode128("a\u0081", "A");
+        assert.deepEqual(data(encoded), [65, 101, 101, 65]);
+    });
+
+    test("above 255 cannot be encoded", () => {
+        assert.throws(
+            () => encodeCode128("A€B"),
+            /Code 128 cannot encode U\+20AC/
+        );
+        assert.throws(() => encodeCode128("A€B", "A"), /U\+20AC/);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, test } from "node:test";
+
+import { analyze } from "../index.ts";
+import assert from "node:assert/strict";
+import { decodeFieldData } from "../src/encoding.ts";
+
+// Text of the first element of the first label
+function fieldText(zpl) {
+    return analyze(zpl)[0].elements[0].text;
+}
+
+describe("decodeFieldData", () => {
+    test("keeps plain text", () => {
+        assert.equal(decodeFieldData("Zebra"), "Zebra");
+    });
+
+    test("decodes hexadecimal escapes in the character set", () => {
+        const utf8 = { hexIndicator: "_", charset: 28 };
+        assert.equal(decodeFieldData("Kraków _C3_B3", utf8), "Kraków ó");
+        // Code Page 850 is the default
+        assert.equal(decodeFieldData("_81", { hexIndicator: "_" }), "ü");
+        assert.equal(
+            decodeFieldData("_B3", { hexIndicator: "_", charset: 33 }),
+            "ł"
+        );
+    });
+
+    test("leaves escapes alone without an indicator", () => {
+        assert.equal(decodeFieldData("_C3_B3", { charset: 28 }), "_C3_B3");
+    });
+
+    test("applies the national character sets", () => {
+        assert.equal(decodeFieldData("[\\]", { charset: 6 }), "ÄÖÜ");
+        assert.equal(decodeFieldData("#", { charset: 2 }), "£");
+    });
+
+    test("applies ^CI remapping", () => {
+        const remap = new Map([[0x24, 0x23]]);
+        assert.equal(decodeFieldData("$5", { remap }), "#5");
+    });
+});
+
+describe("^FH and ^CI in labels", () => {
+    test("^FH escapes use the default indicator", () => {
+        assert.equal(fieldText("^XA^CI28^FO0,0^FH^FDZa_C5_BC_C3_B3^FS^XZ"), "Zażó");
+    });
+
+    test("^FH takes another indicator", () => {
+        assert.equal(fieldText("^XA^CI28^FO0,0^FH#^FD#C3#B3_^FS^XZ"), "ó_");
+    });
+
+    test("^FH applies to a single field", () => {
+        const [first, second] = analyze(
+            "^XA^CI28^FO0,0^FH^FD_C3_B3^FS^FO0,20^FD_C3_B3^FS^XZ"
+        )[0].elements;
+        assert.equal(first.text, "ó");
+        assert.equal(second.text, "_C3_B3");
+    });
+
+    test("^CI stays in effect for the following labels", () => {
+        const labels = analyze(
+            "^XA^CI6^FO0,0^FD[^FS^XZ^XA^FO0,0^FD[^FS^XZ^XA^CI0^FO0,0^FD[^FS^XZ"
+        );
+        assert.deepEqual(
+            labels.map((label) => label.elements[0].text),
+            ["Ä", "Ä", "["]
+        );
+    });
+
+    test("^CI remaps input bytes", () => {
+        assert.equal(fieldText("^XA^CI0,35,36^FO0,0^FD$^FS^XZ"), "#");
+    });
+});
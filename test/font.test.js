@@ -0,0 +1,126 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import { analyze, drawElements } from "../index.ts";
+import {
+    getBitmapFontMatrix,
+    getFontFace,
+    measureText,
+    resolveFont,
+} from "../src/font.ts";
+import path from "path";
+
+describe("Resident bitmap fonts", () => {
+    test("have the native matrix of each designator", () => {
+        assert.deepEqual(getBitmapFontMatrix("A", 203), {
+            height: 9,
+            width: 5,
+            gap: 1,
+            baseline: 7,
+        });
+        assert.deepEqual(getBitmapFontMatrix("D", 203), {
+            height: 18,
+            width: 10,
+            gap: 2,
+            baseline: 14,
+        });
+        assert.equal(getBitmapFontMatrix("0", 203), undefined);
+    });
+
+    test("use the matrix of the printhead for E and H", () => {
+        assert.equal(getBitmapFontMatrix("E", 152).height, 23);
+        assert.equal(getBitmapFontMatrix("E", 203).height, 28);
+        assert.equal(getBitmapFontMatrix("E", 300).height, 42);
+        assert.equal(getBitmapFontMatrix("H", 600).height, 34);
+    });
+
+    test("advance by a fixed cell including the gap", () => {
+        const fontA = resolveFont("A", 9, 5, 203);
+        const fontD = resolveFont("D", 18, 10, 203);
+        assert.equal(fontA.cellWidth, 6);
+        assert.equal(measureText("iW", fontA), 12);
+        assert.equal(measureText("iW", fontD), 24);
+    });
+
+    test("magnify by whole multiples of the matrix", () => {
+        const font = resolveFont("D", 40, 25, 203);
+        assert.equal(font.height, 36);
+        assert.equal(font.cellWidth, 24);
+        assert.equal(font.baseline, 28);
+    });
+
+    test("keep the magnification of the height without a width", () => {
+        assert.equal(resolveFont("A", 27, 0, 203).cellWidth, 18);
+    });
+
+    test("magnify at most ten times", () => {
+        const font = resolveFont("A", 500, 500, 203);
+        assert.equal(font.height, 90);
+        assert.equal(font.cellWidth, 60);
+    });
+
+    test("print at the native size below it", () => {
+        assert.equal(resolveFont("G", 20, 10, 203).height, 60);
+    });
+});
+
+describe("Downloaded bitmap fonts (~DB)", () => {
+    test("are drawn without changing the analysed glyphs", async () => {
+        const zpl =
+            "~DBR:BOX.FNT,N,8,8,8,8,1,C,#0041.8.8.0.8.8.FF818181818181FF" +
+            "^XA^CWQ,R:BOX.FNT^FO0,0^AQN,8,8^FDAA^FS^XZ";
+        const [label] = analyze(zpl);
+        const glyphs = label.elements[0].font.glyphs;
+        const before = [...glyphs.values()].map((glyph) => ({ ...glyph }));
+        const first = await drawElements(label.elements, { width: 40, height: 20 });
+        const second = await drawElements(label.elements, { width: 40, height: 20 });
+        assert.deepEqual(first, second);
+        assert.deepEqual([...glyphs.values()], before);
+    });
+});
+
+describe("Scalable font 0", () => {
+    test("takes the requested height", () => {
+        const font = resolveFont("0", 30, 0, 203);
+        assert.equal(font.bitmap, false);
+        assert.equal(font.size, 30);
+        assert.equal(font.scaleX, 1);
+    });
+
+    test("has proportional widths", () => {
+        const font = resolveFont("0", 30, 30, 203);
+        assert.ok(measureText("W", font) > measureText("i", font));
+    });
+
+    test("stretches the glyphs with the requested width", () => {
+        const narrow = resolveFont("0", 30, 15, 203);
+        const wide = resolveFont("0", 30, 60, 203);
+        assert.equal(
+            Math.round(measureText("ABC", wide)),
+            Math.round(measureText("ABC", narrow) * 4)
+        );
+    });
+});
+
+describe("Bundled fonts", () => {
+    test("stand in for font 0 and the bitmap fonts", () => {
+        const dir = path.dirname(new URL(import.meta.url).pathname);
+        const fonts = path.join(dir, "..", "fonts");
+        const faces = ["0", "D"].map((name) =>
+            getFontFace(resolveFont(name, 20, 0, 203).family)
+        );
+        assert.deepEqual(
+            faces.map((face) => path.relative(fonts, face.path)),
+            ["DejaVuSansCondensed-Bold.ttf", "DejaVuSansMono.ttf"]
+        );
+    });
+
+    test("downloaded fonts that cannot be loaded are reported", () => {
+        const diagnostics = [];
+        analyze("~DUR:BAD.FNT,4,00010203^XA^XZ", { diagnostics });
+        assert.equal(diagnostics.length, 1);
+        assert.equal(diagnostics[0].code, "invalid-font");
+        assert.equal(diagnostics[0].command, "~DUR:BAD.FNT,4,00010203");
+        assert.match(diagnostics[0].message, /^Cannot load font R:BAD.FNT: /);
+    });
+});
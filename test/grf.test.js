@@ -0,0 +1,166 @@
+import { describe, test } from "node:test";
+
+import { decodeGrfData, grfToBitmap } from "../src/grf.ts";
+import { PNG } from "pngjs";
+import assert from "node:assert/strict";
+import { imageToZpl, render } from "../index.ts";
+import zlib from "zlib";
+
+// Returns whether the pixel at (x, y) of a decoded PNG is dark
+function isDark(png, x, y) {
+    return png.data[(y * png.width + x) * 4] < 128;
+}
+
+describe("decodeGrfData", () => {
+    test("reads plain ASCII hex", () => {
+        assert.deepEqual([...decodeGrfData("F00F\n8001", 2)], [0xf0, 0x0f, 0x80, 0x01]);
+    });
+
+    test("expands repeat counts", () => {
+        // G–Y repeat 1–19 times, g–z 20–400 times, and they add up
+        assert.equal(decodeGrfData("HF", 1).toString("hex"), "ff");
+        assert.equal(decodeGrfData("IF", 2).toString("hex"), "fff0");
+        assert.equal(decodeGrfData("gF", 10).toString("hex"), "f".repeat(20));
+        assert.equal(decodeGrfData("gHF", 11).toString("hex"), "f".repeat(22));
+    });
+
+    test("fills rows with ',' and '!' and repeats them with ':'", () => {
+        const bytes = decodeGrfData("F,8!:", 3);
+        assert.equal(bytes.toString("hex"), "f00000" + "8fffff" + "8fffff");
+    });
+
+    test("inflates Z64 and decodes B64 data", () => {
+        const raw = Buffer.from([0xaa, 0x55, 0xff, 0x00]);
+        const z64 = `:Z64:${zlib.deflateSync(raw).toString("base64")}:1234`;
+        const b64 = `:B64:${raw.toString("base64")}:1234`;
+        assert.deepEqual(decodeGrfData(z64, 2), raw);
+        assert.deepEqual(decodeGrfData(b64, 2), raw);
+    });
+
+    test("takes binary data as it is", () => {
+        const bytes = decodeGrfData("\xff\x00", 1, "B");
+        assert.deepEqual([...bytes], [0xff, 0x00]);
+    });
+});
+
+describe("grfToBitmap", () => {
+    test("sets a dot for every set bit, most significant first", () => {
+        const bitmap = grfToBitmap(Buffer.from([0x80, 0x01]), 1, 2);
+        assert.equal(bitmap.width, 8);
+        assert.equal(bitmap.height, 2);
+        const alpha = (x, y) => bitmap.data[(y * 8 + x) * 4 + 3];
+        assert.equal(alpha(0, 0), 255);
+        assert.equal(alpha(1, 0), 0);
+        assert.equal(alpha(7, 1), 255);
+    });
+
+    test("returns null for an unusable size", () => {
+        assert.equal(grfToBitmap(Buffer.alloc(0), 0, 0), null);
+    });
+});
+
+describe("Graphics in labels", () => {
+    test("draws a ^GF graphic field", async () => {
+        const zpl = "^XA^PW40^LL20^FO10,5^GFA,4,4,2,FF00:^FS^XZ";
+        const png = PNG.sync.read(await render(zpl));
+        assert.ok(isDark(png, 10, 5));
+        assert.ok(isDark(png, 17, 6));
+        assert.ok(!isDark(png, 18, 5));
+    });
+
+    test("draws a ~DG graphic recalled with ^XG", async () => {
+        const zpl =
+            "~DGR:LOGO.GRF,4,2,:Z64:" +
+            zlib.deflateSync(Buffer.from([0xff, 0xff, 0xff, 0xff])).toString("base64") +
+            ":0000^XA^PW40^LL20^FO4,4^XGR:LOGO.GRF,2,2^FS^XZ";
+        const png = PNG.sync.read(await render(zpl));
+        // 16 x 2 dots magnified twice
+        assert.ok(isDark(png, 4, 4));
+        assert.ok(isDark(png, 35, 7));
+        assert.ok(!isDark(png, 4, 8));
+    });
+
+    test("reports image data that cannot be decoded with the reason", async () => {
+        const diagnostics = [];
+        await render(
+            "~DYR:LOGO,B,P,8,,0102030405060708^XA^PW40^LL20^FO0,0^IMR:LOGO.PNG^FS^XZ",
+            { diagnostics }
+        );
+        assert.deepEqual(
+            diagnostics.map((d) => [d.code, d.message]),
+            [["invalid-graphic", "Graphic data cannot be decoded: Invalid file signature"]]
+        );
+    });
+});
+
+describe("imageToZpl", () => {
+    // Makes a PNG of the given size with the pixels grey(x, y) (0–255)
+    function makePng(width, height, grey) {
+        const png = new PNG({ width, height });
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = (y * width + x) * 4;
+                png.data.fill(grey(x, y), i, i + 3);
+                png.data[i + 3] = 255;
+            }
+        }
+        return PNG.sync.write(png);
+    }
+
+    // Left half black, right half white
+    const halves = makePng(16, 2, (x) => (x < 8 ? 0 : 255));
+
+    test("produces a ^GFA graphic field", async () => {
+        assert.equal(await imageToZpl(halves), "^GFA,4,4,2,FF00FF00");
+    });
+
+    test("produces a ~DG download", async () => {
+        const zpl = await imageToZpl(halves, { command: "DG", name: "R:LOGO.GRF" });
+        assert.equal(zpl, "~DGR:LOGO.GRF,4,2,FF00FF00");
+    });
+
+    test("compresses the data", async () => {
+        const ascii = await imageToZpl(halves, { compression: "ascii" });
+        assert.equal(ascii, "^GFA,4,4,2,HF,:");
+        const z64 = await imageToZpl(halves, { compression: "z64" });
+        const data = /^\^GFA,4,4,2,(.*)$/.exec(z64)[1];
+        assert.match(data, /^:Z64:[A-Za-z0-9+/=]+:[0-9A-F]{4}$/);
+        assert.deepEqual([...decodeGrfData(data, 2)], [0xff, 0, 0xff, 0]);
+    });
+
+    test("prints pixels darker than the threshold", async () => {
+        const grey = makePng(8, 1, () => 100);
+        assert.equal(await imageToZpl(grey), "^GFA,1,1,1,FF");
+        assert.equal(await imageToZpl(grey, { threshold: 50 }), "^GFA,1,1,1,00");
+    });
+
+    test("dithers mid tones", async () => {
+        const grey = makePng(16, 16, () => 128);
+        for (const dither of ["floyd-steinberg", "ordered"]) {
+            const zpl = await imageToZpl(grey, { dither });
+            const bytes = decodeGrfData(/,([0-9A-F]+)$/.exec(zpl)[1], 2);
+            let dots = 0;
+            for (const byte of bytes) {
+                for (let bit = 0; bit < 8; bit++) {
+                    dots += (byte >> bit) & 1;
+                }
+            }
+            assert.ok(dots > 96 && dots < 160, `${dither}: ${dots} dots`);
+        }
+    });
+
+    test("round trips through the renderer", async () => {
+        const graphic = await imageToZpl(halves, { compression: "ascii" });
+        const png = PNG.sync.read(
+            await render(`^XA^PW20^LL4^FO0,0${graphic}^FS^XZ`)
+        );
+        assert.ok(isDark(png, 7, 1));
+        assert.ok(!isDark(png, 8, 1));
+    });
+
+    test("rejects unknown options", async () => {
+        await assert.rejects(imageToZpl(halves, { command: "XX" }), /Unsupported graphic command/);
+        await assert.rejects(imageToZpl(halves, { dither: "xx" }), /Unsupported dither mode/);
+        await assert.rejects(imageToZpl(halves, { compression: "xx" }), /Unsupported compression/);
+    });
+});
@@ -0,0 +1,118 @@
+import { describe, test } from "node:test";
+
+import * as opentype from "opentype.js";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { render } from "../index.ts";
+import { subsetTrueType } from "../src/fontSubset.ts";
+import zlib from "zlib";
+
+const __dirname = path.dirname(new URL(import.meta.url).pathname);
+const fontPath = path.join(__dirname, "..", "fonts", "DejaVuSans.ttf");
+
+function parseFont(data) {
+    return opentype.parse(
+        data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    );
+}
+
+// Returns the decompressed streams of a PDF whose dictionary matches
+function streams(pdf, pattern) {
+    const text = pdf.toString("latin1");
+    const found = [];
+    const re = /obj\n<<([^\n]*?)>>\nstream\n/g;
+    let match;
+    while ((match = re.exec(text))) {
+        const length = Number(/\/Length (\d+)/.exec(match[1])[1]);
+        if (pattern.test(match[1])) {
+            const start = match.index + match[0].length;
+            found.push(zlib.inflateSync(pdf.subarray(start, start + length)));
+        }
+    }
+    return found;
+}
+
+describe("PDF output", () => {
+    const zpl =
+        "^XA^PW406^LL203^FO10,10^A0N,30^FDHello^FS^XZ" +
+        "^XA^PW406^LL203^FO10,10^A0N,30^FDWorld^FS^XZ";
+
+    test("has a page per label, sized from the label and resolution", async () => {
+        const pdf = (await render(zpl, { format: "pdf" })).toString("latin1");
+        assert.match(pdf, /^%PDF-1\.4/);
+        assert.match(pdf, /\/Type \/Pages \/Kids \[[^\]]*\] \/Count 2/);
+        // 406 x 203 dots at 203 dpi is 2 x 1 inches
+        const boxes = pdf.match(/\/MediaBox \[0 0 144 72\]/g);
+        assert.equal(boxes.length, 2);
+    });
+
+    test("prints text in an embedded font", async () => {
+        const pdf = await render(zpl, { format: "pdf" });
+        // Page contents are the streams without a dictionary of their own
+        const pages = streams(pdf, /^\s*\/Filter/).map((page) =>
+            page.toString("latin1")
+        );
+        assert.match(pages[0], /\(Hello\) Tj/);
+        assert.match(pages[1], /\(World\) Tj/);
+        assert.match(
+            pdf.toString("latin1"),
+            /\/Subtype \/TrueType \/BaseFont \/[A-Z]{6}\+/
+        );
+    });
+
+    test("subsets the embedded font to the characters printed", async () => {
+        const pdf = await render(zpl, { format: "pdf" });
+        assert.ok(pdf.length < 40000, `${pdf.length} bytes`);
+        const [file] = streams(pdf, /\/Length1 /);
+        const font = parseFont(file);
+        // .notdef and H, e, l, o, W, r, d
+        assert.equal(font.numGlyphs, 8);
+        assert.ok(font.charToGlyph("W").index > 0);
+        assert.equal(font.charToGlyph("x").index, 0);
+    });
+});
+
+describe("subsetTrueType", () => {
+    const data = fs.readFileSync(fontPath);
+    const original = parseFont(data);
+
+    function subset(text) {
+        const chars = new Map();
+        for (const ch of text) {
+            chars.set(ch.codePointAt(0), original.charToGlyph(ch).index);
+        }
+        return parseFont(subsetTrueType(data, chars));
+    }
+
+    test("keeps the outlines and advances of the characters", () => {
+        const text = "Zebra 123 äöü €";
+        const font = subset(text);
+        const options = { kerning: false };
+        assert.equal(
+            font.getPath(text, 0, 0, 100, options).toPathData(2),
+            original.getPath(text, 0, 0, 100, options).toPathData(2)
+        );
+        assert.deepEqual(
+            font.stringToGlyphs(text).map((glyph) => glyph.advanceWidth),
+            original.stringToGlyphs(text).map((glyph) => glyph.advanceWidth)
+        );
+    });
+
+    test("keeps the components of composite glyphs", () => {
+        // Accented letters are composites of the base letter and accent
+        const font = subset("Ä");
+        assert.ok(font.numGlyphs > 2);
+        assert.equal(
+            font.getPath("Ä", 0, 0, 100).toPathData(2),
+            original.getPath("Ä", 0, 0, 100).toPathData(2)
+        );
+    });
+
+    test("rejects data that is not a TrueType font", () => {
+        assert.throws(
+            () => subsetTrueType(Buffer.alloc(12), new Map([[65, 36]])),
+            /Font has no head table/
+        );
+    });
+});
@@ -0,0 +1,371 @@
+import { describe, test } from "node:test";
+
+import { PNG } from "pngjs";
+import assert from "node:assert/strict";
+import {
+    ZplDiagnosticError,
+    drawElements,
+    render,
+    renderAll,
+    renderTemplate,
+} from "../index.ts";
+
+// Returns whether the pixel at (x, y) of a decoded PNG is dark
+function isDark(png, x, y) {
+    return png.data[(y * png.width + x) * 4] < 128;
+}
+
+describe("Label size", () => {
+    test("^PW and ^LL set the size of the image", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^PW300^LL200^FO10,10^GB20,20,20^FS^XZ")
+        );
+        assert.equal(png.width, 300);
+        assert.equal(png.height, 200);
+        assert.ok(isDark(png, 15, 15));
+        assert.ok(!isDark(png, 250, 150));
+    });
+
+    test("the default stock size applies when the ZPL leaves it out", async () => {
+        const zpl = "^XA^FO10,10^GB20,20,20^FS^XZ";
+        const png = PNG.sync.read(await render(zpl, { width: 400, height: 600 }));
+        assert.equal(png.width, 400);
+        assert.equal(png.height, 600);
+    });
+
+    test("^PW and ^LL win over the default stock size", async () => {
+        const zpl = "^XA^PW300^LL200^FO10,10^GB20,20,20^FS^XZ";
+        const png = PNG.sync.read(await render(zpl, { width: 400, height: 600 }));
+        assert.equal(png.width, 300);
+        assert.equal(png.height, 200);
+    });
+
+    test("content outside the label is clipped", async () => {
+        const zpl = "^XA^PW100^LL100^FO50,50^GB200,200,200^FS^XZ";
+        const png = PNG.sync.read(await render(zpl));
+        assert.equal(png.width, 100);
+        assert.equal(png.height, 100);
+        assert.ok(isDark(png, 99, 99));
+    });
+
+    test("without a size the image fits the content", async () => {
+        const png = PNG.sync.read(await render("^XA^FO10,10^GB20,30,20^FS^XZ"));
+        assert.equal(png.width, 34);
+        assert.equal(png.height, 44);
+    });
+});
+
+describe("renderAll", () => {
+    const zpl =
+        "^XA^PW100^LL50^FO0,0^GB10,10,10^FS^XZ" +
+        "^XA^PW120^LL60^FO0,0^GB10,10,10^FS^XZ" +
+        "^XA^PW80^LL40^FO0,0^GB10,10,10^FS^XZ";
+
+    test("returns one buffer per label, in document order", async () => {
+        const buffers = await renderAll(zpl);
+        assert.equal(buffers.length, 3);
+        const sizes = buffers.map((buffer) => {
+            const png = PNG.sync.read(buffer);
+            return [png.width, png.height];
+        });
+        assert.deepEqual(sizes, [
+            [100, 50],
+            [120, 60],
+            [80, 40],
+        ]);
+    });
+
+    test("stacks the labels into a contact sheet", async () => {
+        const [sheet] = await renderAll(zpl, { combine: "sheet", gap: 5 });
+        const png = PNG.sync.read(sheet);
+        assert.equal(png.width, 120);
+        assert.equal(png.height, 50 + 60 + 40 + 2 * 5);
+        assert.ok(isDark(png, 5, 50 + 5 + 5));
+        assert.ok(!isDark(png, 5, 52));
+    });
+
+    test("writes a multi-page TIFF", async () => {
+        const [tiff] = await renderAll(zpl, { combine: "tiff" });
+        assert.equal(tiff.toString("ascii", 0, 2), "II");
+        assert.equal(tiff.readUInt16LE(2), 42);
+        // Follow the chain of image file directories
+        let pages = 0;
+        let ifd = tiff.readUInt32LE(4);
+        while (ifd !== 0) {
+            pages++;
+            const entries = tiff.readUInt16LE(ifd);
+            ifd = tiff.readUInt32LE(ifd + 2 + entries * 12);
+        }
+        assert.equal(pages, 3);
+    });
+
+    test("rejects combining outputs other than PNG", async () => {
+        await assert.rejects(
+            renderAll(zpl, { combine: "sheet", format: "svg" }),
+            /Cannot combine labels in svg format/
+        );
+    });
+});
+
+describe("Output scale", () => {
+    test("resizes PNG output without changing the label", async () => {
+        const zpl = "^XA^PW600^LL300^FO0,0^GB150,150,150^FS^XZ";
+        const png = PNG.sync.read(await render(zpl, { dpi: 300, scale: 96 / 300 }));
+        assert.equal(png.width, 192);
+        assert.equal(png.height, 96);
+        assert.ok(isDark(png, 40, 40));
+        assert.ok(!isDark(png, 60, 40));
+    });
+
+    test("resizes SVG output through its viewBox", async () => {
+        const zpl = "^XA^PW600^LL300^FO0,0^GB150,150,150^FS^XZ";
+        const svg = (await render(zpl, { format: "svg", scale: 0.5 })).toString();
+        assert.match(svg, /width="300" height="150" viewBox="0 0 600 300"/);
+    });
+});
+
+describe("Elements built by hand", () => {
+    // Number of rows of a decoded PNG with a dark pixel
+    function inkedRows(png) {
+        let rows = 0;
+        for (let y = 0; y < png.height; y++) {
+            for (let x = 0; x < png.width; x++) {
+                if (isDark(png, x, y)) {
+                    rows++;
+                    break;
+                }
+            }
+        }
+        return rows;
+    }
+
+    test("text without a resolved font uses the resolution of the label", async () => {
+        const text = {
+            type: "text",
+            x: 0,
+            y: 0,
+            text: "EE",
+            fontName: "E",
+            height: 0,
+            width: 0,
+            orientation: "N",
+            originType: "top-left",
+        };
+        const [at203, at300] = await Promise.all(
+            [203, 300].map(async (dpi) =>
+                PNG.sync.read(await drawElements([text], { width: 100, height: 100, dpi }))
+            )
+        );
+        // Font E is 28 dots high at 203 dpi and 42 dots at 300 dpi
+        assert.ok(inkedRows(at300) > inkedRows(at203) * 1.3);
+    });
+});
+
+describe("renderTemplate", () => {
+    const template =
+        "^XA^DFR:BOX.ZPL^FS^PW100^LL50^FO0,0^GB10,10,10^FS^XZ" +
+        "^XA^DFR:SHIP.ZPL^FS^PW100^LL50^FO0,0^FN1^FDx^FS^XZ";
+
+    test("renders the last format by default", async () => {
+        const png = PNG.sync.read(await renderTemplate(template, { 1: "" }));
+        assert.equal(png.width, 100);
+        assert.ok(!isDark(png, 5, 5));
+    });
+
+    test("renders the format named", async () => {
+        const png = PNG.sync.read(
+            await renderTemplate(template, {}, { formatName: "R:BOX.ZPL" })
+        );
+        assert.ok(isDark(png, 5, 5));
+    });
+
+    test("throws for a format the template does not define", async () => {
+        const diagnostics = [];
+        await assert.rejects(
+            renderTemplate(template, {}, { formatName: "R:NONE.ZPL", diagnostics }),
+            (err) =>
+                err instanceof ZplDiagnosticError &&
+                err.diagnostic.code === "missing-format" &&
+                err.message === "No format R:NONE.ZPL (^XFR:NONE.ZPL)"
+        );
+        assert.equal(diagnostics.length, 1);
+    });
+
+    test("throws for a template without formats", async () => {
+        await assert.rejects(
+            renderTemplate("^XA^FO0,0^FDx^FS^XZ", {}),
+            /No stored format/
+        );
+    });
+});
+
+describe("Graphic boxes (^GB)", () => {
+    test("draw the border inside the box", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FO10,10^GB50,40,5^FS^XZ"));
+        assert.ok(isDark(png, 10, 10));
+        assert.ok(isDark(png, 14, 30));
+        assert.ok(!isDark(png, 15, 30));
+        assert.ok(isDark(png, 59, 30));
+        assert.ok(!isDark(png, 60, 30));
+        assert.ok(!isDark(png, 9, 30));
+    });
+
+    test("fill when the border is at least half the shorter side", async () => {
+        const png = PNG.sync.read(await render("^XA^PW400^LL100^FO10,10^GB380,80,40^FS^XZ"));
+        assert.ok(isDark(png, 200, 50));
+        assert.ok(isDark(png, 389, 89));
+        assert.ok(!isDark(png, 390, 90));
+    });
+
+    test("are never smaller than their thickness", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FO10,10^GB50,0,4^FS^XZ"));
+        assert.ok(isDark(png, 30, 13));
+        assert.ok(!isDark(png, 30, 14));
+    });
+
+    test("white boxes erase what lies underneath", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^PW100^LL100^FO0,0^GB100,100,100^FS^FO20,20^GB40,40,40,W^FS^XZ")
+        );
+        assert.ok(!isDark(png, 40, 40));
+        assert.ok(isDark(png, 10, 10));
+    });
+
+    test("round their corners by the rounding degree", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^PW100^LL100^FO0,0^GB100,40,40,B,8^FS^FO0,50^GB100,40,40,B,4^FS^XZ")
+        );
+        // Degree 8 gives semicircular ends, degree 4 half that radius
+        assert.ok(!isDark(png, 5, 5));
+        assert.ok(isDark(png, 20, 20));
+        assert.ok(!isDark(png, 1, 51));
+        assert.ok(isDark(png, 5, 60));
+        assert.ok(isDark(png, 50, 52));
+    });
+
+    test("^FT places the bottom of the box", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FT10,60^GB50,20,20^FS^XZ"));
+        assert.ok(!isDark(png, 30, 39));
+        assert.ok(isDark(png, 30, 40));
+        assert.ok(isDark(png, 30, 59));
+        assert.ok(!isDark(png, 30, 60));
+    });
+
+    test("reversed boxes invert what lies underneath, whatever their colour", async () => {
+        for (const color of ["B", "W"]) {
+            const png = PNG.sync.read(
+                await render(
+                    `^XA^PW100^LL100^FO0,0^GB50,100,50^FS^FO20,20^FR^GB60,20,20,${color}^FS^XZ`
+                )
+            );
+            assert.ok(!isDark(png, 30, 30), color);
+            assert.ok(isDark(png, 70, 30), color);
+        }
+    });
+});
+
+describe("Graphic circles (^GC)", () => {
+    test("draw the outline inside the diameter", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FO10,10^GC80,10^FS^XZ"));
+        assert.ok(isDark(png, 12, 50));
+        assert.ok(isDark(png, 87, 50));
+        assert.ok(!isDark(png, 8, 50));
+        assert.ok(!isDark(png, 91, 50));
+        assert.ok(!isDark(png, 50, 50));
+    });
+
+    test("fill when the outline is at least the radius", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FO10,10^GC80,40^FS^XZ"));
+        assert.ok(isDark(png, 50, 50));
+    });
+
+    test("white circles erase what lies underneath", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^PW100^LL100^FO0,0^GB100,100,100^FS^FO10,10^GC80,80,W^FS^XZ")
+        );
+        assert.ok(!isDark(png, 50, 50));
+        assert.ok(isDark(png, 2, 2));
+    });
+
+    test("reversed circles invert what lies underneath, whatever their colour", async () => {
+        for (const color of ["B", "W"]) {
+            const png = PNG.sync.read(
+                await render(
+                    `^XA^PW100^LL100^FO0,0^GB50,100,50^FS^FO10,10^FR^GC80,80,${color}^FS^XZ`
+                )
+            );
+            assert.ok(!isDark(png, 30, 50), color);
+            assert.ok(isDark(png, 70, 50), color);
+        }
+    });
+
+    test("^FT places the bottom of the circle", async () => {
+        const png = PNG.sync.read(await render("^XA^PW100^LL100^FT10,90^GC40,40^FS^XZ"));
+        assert.ok(isDark(png, 30, 70));
+        assert.ok(!isDark(png, 30, 45));
+    });
+});
+
+describe("Graphic ellipses and diagonal lines (^GE, ^GD)", () => {
+    // Half of a 100 x 50 label black, with a reversed shape across it
+    const reversed = (shape) =>
+        `^XA^PW100^LL50^FO0,0^GB50,50,50^FS^FO0,0^FR${shape}^FS^XZ`;
+
+    test("reversed ellipses invert what lies underneath, whatever their colour", async () => {
+        for (const color of ["B", "W"]) {
+            const png = PNG.sync.read(await render(reversed(`^GE100,50,50,${color}`)));
+            assert.ok(!isDark(png, 25, 25), color);
+            assert.ok(isDark(png, 75, 25), color);
+            assert.ok(isDark(png, 2, 2), color);
+        }
+    });
+
+    test("reversed diagonal lines invert what lies underneath, whatever their colour", async () => {
+        for (const color of ["B", "W"]) {
+            const png = PNG.sync.read(await render(reversed(`^GD100,50,100,${color}`)));
+            assert.ok(!isDark(png, 25, 25), color);
+            assert.ok(isDark(png, 75, 25), color);
+        }
+    });
+
+    test("white lines erase what lies underneath", async () => {
+        const png = PNG.sync.read(
+            await render("^XA^PW100^LL50^FO0,0^GB100,50,50^FS^FO0,0^GD100,50,100,W^FS^XZ")
+        );
+        assert.ok(!isDark(png, 50, 25));
+    });
+});
+
+describe("Label placement (^PO, ^PM, ^LS, ^LT)", () => {
+    // A 10 dot square in the top left corner of a 100 x 50 label
+    const box = "^PW100^LL50^FO0,0^GB10,10,10^FS^XZ";
+
+    test("^POI turns the label upside down", async () => {
+        const png = PNG.sync.read(await render("^XA^POI" + box));
+        assert.ok(isDark(png, 95, 45));
+        assert.ok(!isDark(png, 5, 5));
+    });
+
+    test("^PMY mirrors the label", async () => {
+        const png = PNG.sync.read(await render("^XA^PMY" + box));
+        assert.ok(isDark(png, 95, 5));
+        assert.ok(!isDark(png, 5, 5));
+    });
+
+    test("^POI and ^PMY together flip the label vertically", async () => {
+        const png = PNG.sync.read(await render("^XA^POI^PMY" + box));
+        assert.ok(isDark(png, 5, 45));
+        assert.ok(!isDark(png, 5, 5));
+    });
+
+    test("^LS shifts the label left and ^LT moves it down", async () => {
+        const png = PNG.sync.read(await render("^XA^LS-20^LT30" + box));
+        assert.ok(isDark(png, 25, 35));
+        assert.ok(!isDark(png, 5, 5));
+    });
+
+    test("applies to SVG output", async () => {
+        const svg = (await render("^XA^POI" + box, { format: "svg" })).toString();
+        assert.match(svg, /<path d="M100 50L90 50L90 40L100 40Z" fill="black"\/>/);
+    });
+});
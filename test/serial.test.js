@@ -0,0 +1,60 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import { serialField, serialNumber } from "../src/serial.ts";
+
+// Field data of the first `count` steps
+function steps(count, serialize) {
+    return Array.from({ length: count }, (_, step) => serialize(step));
+}
+
+describe("^SN serialization", () => {
+    test("increments the right-most number and keeps the text around it", () => {
+        assert.deepEqual(
+            steps(3, (step) => serialNumber("LOT 7 BOX 10A", 5, false, step)),
+            ["LOT 7 BOX 10A", "LOT 7 BOX 15A", "LOT 7 BOX 20A"]
+        );
+        assert.equal(serialNumber("BOX 98", 5, false, 1), "BOX  3");
+    });
+
+    test("pads with zeros or spaces to the width of the start value", () => {
+        assert.equal(serialNumber("007", 1, true, 3), "010");
+        assert.equal(serialNumber("10", -1, false, 1), " 9");
+    });
+
+    test("counts down with a negative increment and wraps around", () => {
+        assert.deepEqual(
+            steps(4, (step) => serialNumber("02", -1, true, step)),
+            ["02", "01", "00", "99"]
+        );
+    });
+});
+
+describe("^SF serialization", () => {
+    test("counts in the character set of each mask position", () => {
+        assert.deepEqual(
+            steps(3, (step) => serialField("A0F", "%dH", undefined, step)),
+            ["A0F", "A10", "A11"]
+        );
+        assert.equal(serialField("az", "a", undefined, 1), "aa");
+    });
+
+    test("adds the increment string aligned to the right", () => {
+        assert.deepEqual(
+            steps(3, (step) => serialField("AB98", "%%dd", "5", step)),
+            ["AB98", "AB03", "AB08"]
+        );
+        assert.equal(serialField("12", "dd", "11", 2), "34");
+    });
+
+    test("counts down with a negative increment", () => {
+        assert.deepEqual(
+            steps(4, (step) => serialField("5", "d", "-1", step)),
+            ["5", "4", "3", "2"]
+        );
+        assert.deepEqual(
+            steps(3, (step) => serialField("01", "dd", "-1", step)),
+            ["01", "00", "99"]
+        );
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import { render } from "../index.ts";
+
+describe("SVG output", () => {
+    const zpl =
+        "^XA^PW200^LL100" +
+        "^FO10,40^A0N,20^FDHi^FS" +
+        "^FO80,10^BCN,30,N^FD12^FS" +
+        "^FO150,10^GFA,2,2,1,FF00^FS" +
+        "^XZ";
+
+    test("is sized from the label", async () => {
+        const svg = (await render(zpl, { format: "svg" })).toString("utf8");
+        assert.match(svg, /^<\?xml/);
+        assert.match(svg, /<svg [^>]*width="200" height="100" viewBox="0 0 200 100"/);
+    });
+
+    test("wraps every element in a group naming its type", async () => {
+        const svg = (await render(zpl, { format: "svg" })).toString("utf8");
+        const groups = [...svg.matchAll(/data-zpl-type="(\w+)" data-zpl-index="(\d+)"/g)];
+        assert.deepEqual(
+            groups.map((m) => [m[1], Number(m[2])]),
+            [
+                ["text", 0],
+                ["barcode", 1],
+                ["image", 2],
+            ]
+        );
+    });
+
+    test("draws text as text", async () => {
+        const svg = (await render(zpl, { format: "svg" })).toString("utf8");
+        assert.match(svg, /<text [^>]*>Hi<\/text>/);
+    });
+
+    test("draws barcode bars as crisp rectangles", async () => {
+        const svg = (await render(zpl, { format: "svg" })).toString("utf8");
+        const barcode = /data-zpl-type="barcode"[^]*?<\/g><\/g>/.exec(svg)[0];
+        assert.match(barcode, /shape-rendering="crispEdges"/);
+        const bars = barcode.match(/<rect [^>]*height="30"\/>/g);
+        // Start B, two data characters, check character and stop
+        assert.equal(bars.length, 3 * 4 + 4);
+    });
+
+    test("embeds images as PNG data URIs", async () => {
+        const svg = (await render(zpl, { format: "svg" })).toString("utf8");
+        assert.match(svg, /<image [^>]*href="data:image\/png;base64,[A-Za-z0-9+/=]+"/);
+    });
+});
@@ -0,0 +1,98 @@
+import { describe, test } from "node:test";
+
+import assert from "node:assert/strict";
+import { layoutText } from "../src/textLayout.ts";
+import { resolveFont } from "../src/font.ts";
+
+// Font A: 9 dots high, every character 6 dots wide
+const font = resolveFont("A", 9, 5, 203);
+
+// Text and position of every run
+function runs(layout) {
+    return layout.runs.map((run) => [run.text, run.x, run.y]);
+}
+
+describe("Field blocks (^FB)", () => {
+    const block = { type: "FB", width: 60, lines: 5, lineSpacing: 1 };
+
+    test("wrap words at the measured width", () => {
+        const layout = layoutText("ONE TWO THREE FOUR", font, block);
+        assert.deepEqual(runs(layout), [
+            ["ONE TWO", 0, 0],
+            ["THREE FOUR", 0, 10],
+        ]);
+        assert.equal(layout.height, 19);
+    });
+
+    test("break words that do not fit on a line of their own", () => {
+        const layout = layoutText("ABCDEFGHIJKLMN", font, block);
+        assert.deepEqual(runs(layout), [
+            ["ABCDEFGHIJ", 0, 0],
+            ["KLMN", 0, 10],
+        ]);
+    });
+
+    test("start a new line at \\& and print \\\\ as a backslash", () => {
+        const layout = layoutText("A\\&B\\\\C", font, block);
+        assert.deepEqual(runs(layout), [
+            ["A", 0, 0],
+            ["B\\C", 0, 10],
+        ]);
+    });
+
+    test("align lines to the centre or the right", () => {
+        const centre = layoutText("ABCD", font, { ...block, align: "C" });
+        const right = layoutText("ABCD", font, { ...block, align: "R" });
+        assert.deepEqual(runs(centre), [["ABCD", 18, 0]]);
+        assert.deepEqual(runs(right), [["ABCD", 36, 0]]);
+    });
+
+    test("justify every line but the last of a paragraph", () => {
+        const layout = layoutText("AB CD EF GH", font, { ...block, align: "J" });
+        assert.deepEqual(runs(layout), [
+            ["AB", 0, 0],
+            ["CD", 24, 0],
+            ["EF", 48, 0],
+            ["GH", 0, 10],
+        ]);
+    });
+
+    test("indent every line after the first", () => {
+        const layout = layoutText("ONE TWO THREE", font, { ...block, indent: 12 });
+        assert.deepEqual(runs(layout), [
+            ["ONE TWO", 0, 0],
+            ["THREE", 12, 10],
+        ]);
+    });
+
+    test("print lines beyond the block over the last line", () => {
+        const layout = layoutText("A\\&B\\&C", font, { ...block, lines: 2 });
+        assert.deepEqual(runs(layout), [
+            ["A", 0, 0],
+            ["B", 0, 10],
+            ["C", 0, 10],
+        ]);
+        assert.equal(layout.height, 19);
+    });
+});
+
+describe("Text blocks (^TB)", () => {
+    test("drop the lines that do not fit into the height", () => {
+        const block = { type: "TB", width: 30, height: 20 };
+        const layout = layoutText("ONE TWO THREE", font, block);
+        assert.deepEqual(runs(layout), [
+            ["ONE", 0, 0],
+            ["TWO", 0, 9],
+        ]);
+        assert.equal(layout.height, 18);
+    });
+});
+
+describe("Fields without a block", () => {
+    test("are a single line", () => {
+        const layout = layoutText("ONE TWO", font, null);
+        assert.deepEqual(runs(layout), [["ONE TWO", 0, 0]]);
+        assert.equal(layout.width, 42);
+        assert.equal(layout.height, 9);
+    });
+});